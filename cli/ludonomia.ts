@@ -0,0 +1,320 @@
+#!/usr/bin/env node
+import { once } from 'node:events';
+import { createWriteStream, readFileSync, readdirSync, statSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import type { Writable } from 'node:stream';
+import type { ConfigObj, TemplateEntry } from '../src/core/types.ts';
+import { composeName, iterateNames, nameSetSpace } from '../src/core/engine.ts';
+import type { Selections } from '../src/core/engine.ts';
+import { matchNameSets, parseName } from '../src/core/parser.ts';
+import type { ParsedName } from '../src/core/parser.ts';
+import { parseProject } from '../src/core/projectFile.ts';
+import { parseLibrary, resolveLibraries } from '../src/core/libraries.ts';
+import type { LoadedLibrary } from '../src/core/libraries.ts';
+import { DEFAULT_EXPORT_OPTIONS, exportLines } from '../src/core/export.ts';
+import type { ExportFormat } from '../src/core/export.ts';
+import { slotElement, slotKeys, toSlot, withSlotMode } from '../src/core/template.ts';
+import { resolveTerm } from '../src/core/terms.ts';
+
+// --- Ludonomia CLI ---
+// Generates, composes and validates names from a project file using the same engine
+// as the editor, so build pipelines and CI see exactly the names the UI shows.
+
+const USAGE = `Usage: ludonomia --project <file.json> <command> [options]
+
+Commands:
+  list-namesets                       List the NameSets in the project
+  generate <NameSet>                  Print every name the NameSet generates
+      --format=txt|csv|tsv|json       Output format (default: txt). csv, tsv and json
+                                      add a column per element and the NameSet's
+                                      group and tags.
+      --bom                           Start the file with a UTF-8 byte order mark
+      --limit=<n>                     Stop after n names
+      --out=<file>                    Write to a file instead of stdout
+  compose <NameSet> --<Element>=<Term> ...
+                                      Build one name from the given terms
+      --variation=<n>                 Variation number to append
+  validate <NameSet|*> <files...>     Check filenames against a NameSet (or any NameSet
+                                      with *). Folders are scanned recursively.
+                                      Exits with code 1 if any name fails.
+      --quiet                         Only report names that fail
+
+Element and term options pin their slots to that term for generate, whatever the
+slot's mode, e.g. --"Sound Type=SFX".`;
+
+const OPTIONS = ['project', 'format', 'limit', 'out', 'variation', 'bom', 'quiet', 'help'];
+const FLAGS = ['bom', 'quiet', 'help'];
+const FORMATS = ['txt', 'csv', 'tsv', 'json'];
+
+class UsageError extends Error {}
+
+type Args = {
+  positional: string[];
+  options: Record<string, string>;
+  // `--Element=Term` pairs that aren't one of the CLI's own options.
+  terms: Record<string, string>;
+};
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { positional: [], options: {}, terms: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      args.positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    const key = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+    const value = eq === -1 ? undefined : arg.slice(eq + 1);
+    if (OPTIONS.includes(key)) {
+      args.options[key] = value ?? (FLAGS.includes(key) ? 'true' : argv[++i] ?? '');
+    } else if (value !== undefined) {
+      args.terms[key] = value;
+    } else {
+      throw new UsageError(`Unknown option --${key}. Element terms are given as --Element=Term.`);
+    }
+  }
+  return args;
+}
+
+function loadProject(path: string | undefined): ConfigObj {
+  if (!path) throw new UsageError("Missing --project <file.json>.");
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (err) {
+    throw new UsageError(`Could not read ${path}: ${(err as Error).message}`);
+  }
+  const result = parseProject(text);
+  if (!result.ok) {
+    const details = result.issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n');
+    throw new UsageError(`${path} is not a valid project:\n${details}`);
+  }
+  return withLibraries(path, result.config);
+}
+
+// Merge in the element libraries the project references, relative to the project file.
+function withLibraries(projectPath: string, config: ConfigObj): ConfigObj {
+  const loaded = (config.libraries || []).map((libraryPath): LoadedLibrary => {
+    let text: string;
+    try {
+      text = readFileSync(resolve(dirname(projectPath), libraryPath), 'utf8');
+    } catch {
+      return { path: libraryPath };
+    }
+    const parsed = parseLibrary(text);
+    return parsed.ok
+      ? { path: libraryPath, library: parsed.library }
+      : { path: libraryPath, error: parsed.issues.map(issue => `${issue.path}: ${issue.message}`).join('; ') };
+  });
+
+  const resolved = resolveLibraries(config, loaded);
+  const errors = resolved.issues.filter(issue => issue.kind !== 'conflict');
+  if (errors.length > 0) {
+    throw new UsageError(`${projectPath} can't be used with its libraries:\n${errors.map(issue => `  ${issue.message}`).join('\n')}`);
+  }
+  resolved.issues.forEach(issue => console.error(`Warning: ${issue.message}`));
+  return resolved.config;
+}
+
+function requireNameSet(config: ConfigObj, id: string | undefined): string {
+  if (!id) throw new UsageError("Missing the NameSet name.");
+  if (!config.nameSets[id]) {
+    throw new UsageError(`Unknown NameSet "${id}". Available: ${Object.keys(config.nameSets).join(', ')}`);
+  }
+  return id;
+}
+
+// Turn `--Element=Term` options into selections, checking both against the project.
+// A second slot of the same element is given as `--"Element #2=Term"`. Aliases are
+// accepted and stand for their term.
+function termSelections(config: ConfigObj, terms: Record<string, string>): Selections {
+  const selections: Selections = {};
+  Object.entries(terms).forEach(([key, term]) => {
+    const element = Object.hasOwn(config.elements, key) ? key : key.replace(/ #\d+$/, '');
+    const def = config.elements[element];
+    if (!def) throw new UsageError(`Unknown element "${key}".`);
+    const resolved = resolveTerm(def, term);
+    if (!resolved) throw new UsageError(`"${term}" is not a term of element "${element}".`);
+    selections[key] = resolved.token;
+  });
+  return selections;
+}
+
+// Warn about `--Element=Term` options that match no slot of the NameSet, which would
+// otherwise be silently ignored.
+function warnUnusedTerms(nameSetId: string, template: TemplateEntry[], selections: Selections) {
+  const keys = slotKeys(template);
+  Object.entries(selections)
+    .filter(([key]) => !keys.includes(key))
+    .forEach(([key, term]) => console.error(`Warning: --"${key}=${term}" was ignored; "${nameSetId}" has no ${key} slot.`));
+}
+
+async function writeAll(out: Writable, chunks: Iterable<string>) {
+  for (const chunk of chunks) {
+    if (!out.write(chunk)) await once(out, 'drain');
+  }
+}
+
+function* withLineEndings(lines: Iterable<string>, lineEnding: string): Generator<string> {
+  for (const line of lines) yield line + lineEnding;
+}
+
+async function generate(config: ConfigObj, args: Args) {
+  const nameSetId = requireNameSet(config, args.positional[1]);
+  const format = args.options.format ?? 'txt';
+  if (!FORMATS.includes(format)) throw new UsageError(`--format must be one of ${FORMATS.join(', ')}.`);
+
+  const template = config.nameSets[nameSetId].template;
+  const selections = termSelections(config, args.terms);
+  warnUnusedTerms(nameSetId, template, selections);
+  const keys = slotKeys(template);
+  const pinned = template.map((entry, i) => selections[keys[i]] === undefined
+    ? entry
+    : withSlotMode(entry, 'pinned', { pinned: selections[keys[i]] }));
+  const space = nameSetSpace(config, nameSetId, { template: pinned, selections });
+  let end = space.total;
+  if (args.options.limit !== undefined) {
+    const limit = Number(args.options.limit);
+    if (!Number.isInteger(limit) || limit < 0) throw new UsageError("--limit must be a whole number.");
+    end = Math.min(limit, space.total);
+  }
+
+  const lineEnding = format === 'csv' ? '\r\n' : '\n';
+  const lines = format === 'txt'
+    ? iterateNames(space, 0, end)
+    : exportLines(space, nameSetId, config.nameSets[nameSetId], {
+      ...DEFAULT_EXPORT_OPTIONS,
+      format: format as ExportFormat,
+      lineEnding,
+      bom: args.options.bom === 'true'
+    }, end);
+
+  const file = args.options.out ? createWriteStream(args.options.out) : null;
+  // A bad --out path (missing folder, no permission) is reported like an unreadable project
+  const failed = new Promise<never>((_, reject) => file?.on('error', err => {
+    reject(new UsageError(`Could not write ${args.options.out}: ${err.message}`));
+  }));
+  const write = async () => {
+    await writeAll(file ?? process.stdout, withLineEndings(lines, lineEnding));
+    if (file) {
+      file.end();
+      await once(file, 'finish');
+    }
+  };
+  await Promise.race([write(), failed]);
+  if (file) console.error(`Wrote ${end} name(s) to ${args.options.out}`);
+}
+
+function compose(config: ConfigObj, args: Args) {
+  const nameSetId = requireNameSet(config, args.positional[1]);
+  const nameSet = config.nameSets[nameSetId];
+  const selections = termSelections(config, args.terms);
+  warnUnusedTerms(nameSetId, nameSet.template, selections);
+  const keys = slotKeys(nameSet.template);
+  const missing = nameSet.template
+    .map(toSlot)
+    .flatMap((slot, i) => slot.mode !== 'optional' && !(slot.mode === 'pinned' && slot.pinned) && !selections[keys[i]] ? [keys[i]] : []);
+
+  let variation: number | undefined;
+  if (args.options.variation !== undefined) {
+    variation = Number(args.options.variation);
+    if (!Number.isInteger(variation)) throw new UsageError("--variation must be a whole number.");
+  }
+
+  console.log(composeName(nameSet, selections, variation));
+  if (missing.length > 0) console.error(`No term given for: ${missing.join(', ')}`);
+}
+
+function collectFiles(paths: string[]): string[] {
+  return paths.flatMap(path => {
+    let stats;
+    try {
+      stats = statSync(path);
+    } catch {
+      // Not on disk: treat the argument as a bare name to check
+      return [path];
+    }
+    if (!stats.isDirectory()) return [path];
+    return collectFiles(readdirSync(path).filter(entry => !entry.startsWith('.')).map(entry => join(path, entry)));
+  });
+}
+
+function validate(config: ConfigObj, args: Args): number {
+  const target = args.positional[1];
+  const anyNameSet = target === '*';
+  const nameSetId = anyNameSet ? '' : requireNameSet(config, target);
+  if (anyNameSet && Object.keys(config.nameSets).length === 0) throw new UsageError("The project has no NameSets to validate against.");
+  const files = collectFiles(args.positional.slice(2));
+  if (files.length === 0) throw new UsageError("No files to validate.");
+
+  const quiet = args.options.quiet === 'true';
+  let failures = 0;
+  files.forEach(file => {
+    const result: ParsedName | undefined = anyNameSet ? matchNameSets(config, file)[0] : parseName(config, nameSetId, file);
+    if (!result) {
+      failures++;
+      console.log(`FAIL ${file} (no NameSet)`);
+      return;
+    }
+    if (result.valid) {
+      if (!quiet || result.warnings.length > 0) {
+        console.log(`${result.warnings.length > 0 ? 'WARN' : 'PASS'} ${file}${anyNameSet ? ` (${result.nameSet})` : ''}`);
+        result.warnings.forEach(warning => console.log(`     ${warning.message}`));
+      }
+      return;
+    }
+    failures++;
+    console.log(`FAIL ${file}${anyNameSet ? ` (closest: ${result.nameSet})` : ''}`);
+    [...result.issues, ...result.warnings].forEach(issue => console.log(`     ${issue.message}`));
+  });
+
+  console.log(`\n${files.length - failures} passed, ${failures} failed.`);
+  return failures > 0 ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  const command = args.positional[0];
+  if (!command || args.options.help) {
+    console.log(USAGE);
+    return args.options.help ? 0 : 2;
+  }
+
+  const config = loadProject(args.options.project);
+  switch (command) {
+    case 'list-namesets':
+      Object.entries(config.nameSets).forEach(([id, nameSet]) => {
+        const group = nameSet.group ? ` [${nameSet.group}]` : '';
+        const parent = nameSet.extends !== undefined ? ` (variant of ${nameSet.extends})` : '';
+        console.log(`${id}${group}${parent}: ${nameSet.template.map(entry => `{${slotElement(entry)}}`).join(nameSet.delimiter)}`);
+      });
+      return 0;
+    case 'generate':
+      await generate(config, args);
+      return 0;
+    case 'compose':
+      compose(config, args);
+      return 0;
+    case 'validate':
+      return validate(config, args);
+    default:
+      throw new UsageError(`Unknown command "${command}".`);
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(err => {
+    // The reader went away (e.g. piped into `head`); nothing left to report
+    if ((err as NodeJS.ErrnoException).code === 'EPIPE') return;
+    if (err instanceof UsageError) {
+      console.error(`ludonomia: ${err.message}\n\nRun with --help for usage.`);
+      process.exitCode = 2;
+      return;
+    }
+    console.error(err);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,35 @@
+// --- App Data ---
+// Small documents the app keeps for itself between runs (the autosaved session, the
+// recent projects list), stored as files in the app data folder.
+
+use std::fs;
+use std::path::{Path, PathBuf};
+
+// Only plain file names, so a caller can't reach outside the folder.
+fn document_path(dir: &Path, name: &str) -> Result<PathBuf, String> {
+  let valid = !name.is_empty()
+    && !name.starts_with('.')
+    && name.chars().all(|c| c.is_ascii_alphanumeric() || matches!(c, '-' | '_' | '.'));
+  if !valid {
+    return Err(format!("\"{name}\" is not a valid app data file name."));
+  }
+  Ok(dir.join(name))
+}
+
+pub fn read(dir: &Path, name: &str) -> Result<Option<String>, String> {
+  let path = document_path(dir, name)?;
+  match fs::read_to_string(&path) {
+    Ok(contents) => Ok(Some(contents)),
+    Err(e) if e.kind() == std::io::ErrorKind::NotFound => Ok(None),
+    Err(e) => Err(format!("Could not read {}: {e}", path.display())),
+  }
+}
+
+// Written to a temporary file first, so a crash mid-write leaves the old copy intact.
+pub fn write(dir: &Path, name: &str, contents: &str) -> Result<(), String> {
+  let path = document_path(dir, name)?;
+  fs::create_dir_all(dir).map_err(|e| format!("Could not create {}: {e}", dir.display()))?;
+  let temp = dir.join(format!(".{name}.tmp"));
+  fs::write(&temp, contents).map_err(|e| format!("Could not write {}: {e}", temp.display()))?;
+  fs::rename(&temp, &path).map_err(|e| format!("Could not replace {}: {e}", path.display()))
+}
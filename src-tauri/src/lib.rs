@@ -1,6 +1,54 @@
+mod app_data;
+mod rename;
+mod scan;
+
+use rename::{ApplyResult, Rename, RenamePreview};
+use std::path::{Path, PathBuf};
+use tauri::{AppHandle, Manager};
+
+#[tauri::command]
+fn list_folder(folder: String) -> Result<Vec<String>, String> {
+  rename::list_files(Path::new(&folder))
+}
+
+#[tauri::command]
+fn preview_renames(folder: String, renames: Vec<Rename>) -> Vec<RenamePreview> {
+  rename::preview(Path::new(&folder), &renames)
+}
+
+#[tauri::command]
+fn apply_renames(folder: String, renames: Vec<Rename>) -> Result<ApplyResult, String> {
+  rename::apply(Path::new(&folder), &renames)
+}
+
+#[tauri::command]
+fn scan_folder(folder: String) -> Result<Vec<String>, String> {
+  scan::list_files_recursive(Path::new(&folder))
+}
+
+#[tauri::command]
+fn undo_renames(log_path: String) -> Result<usize, String> {
+  rename::undo(Path::new(&log_path))
+}
+
+fn app_data_dir(app: &AppHandle) -> Result<PathBuf, String> {
+  app.path().app_data_dir().map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+fn read_app_data(app: AppHandle, name: String) -> Result<Option<String>, String> {
+  app_data::read(&app_data_dir(&app)?, &name)
+}
+
+#[tauri::command]
+fn write_app_data(app: AppHandle, name: String, contents: String) -> Result<(), String> {
+  app_data::write(&app_data_dir(&app)?, &name, &contents)
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
   tauri::Builder::default()
+    .plugin(tauri_plugin_dialog::init())
     .setup(|app| {
       if cfg!(debug_assertions) {
         app.handle().plugin(
@@ -11,6 +59,15 @@ pub fn run() {
       }
       Ok(())
     })
+    .invoke_handler(tauri::generate_handler![
+      list_folder,
+      preview_renames,
+      apply_renames,
+      undo_renames,
+      scan_folder,
+      read_app_data,
+      write_app_data
+    ])
     .run(tauri::generate_context!())
     .expect("error while running tauri application");
 }
@@ -0,0 +1,416 @@
+// --- Batch Rename ---
+// Plans, applies and undoes a set of renames inside a single folder. Everything here
+// works on plain paths with no Tauri types, so it can be exercised against a temp dir.
+
+use serde::{Deserialize, Serialize};
+use std::collections::{HashMap, HashSet};
+use std::fs;
+use std::path::{Component, Path, PathBuf};
+use std::time::{SystemTime, UNIX_EPOCH};
+
+const LOG_PREFIX: &str = ".ludonomia-rename-";
+const TEMP_PREFIX: &str = ".ludonomia-tmp-";
+
+const ILLEGAL_CHARS: &[char] = &['<', '>', ':', '"', '/', '\\', '|', '?', '*'];
+const RESERVED_NAMES: &[&str] = &[
+  "CON", "PRN", "AUX", "NUL", "COM1", "COM2", "COM3", "COM4", "COM5", "COM6", "COM7", "COM8",
+  "COM9", "LPT1", "LPT2", "LPT3", "LPT4", "LPT5", "LPT6", "LPT7", "LPT8", "LPT9",
+];
+
+#[derive(Debug, Clone, Serialize, Deserialize, PartialEq, Eq)]
+pub struct Rename {
+  pub from: String,
+  pub to: String,
+}
+
+#[derive(Debug, Clone, Copy, Serialize, PartialEq, Eq)]
+#[serde(rename_all = "kebab-case")]
+pub enum IssueKind {
+  Missing,
+  Illegal,
+  Collision,
+}
+
+#[derive(Debug, Clone, Serialize)]
+pub struct RenameIssue {
+  pub kind: IssueKind,
+  pub message: String,
+}
+
+#[derive(Debug, Clone, Serialize)]
+pub struct RenamePreview {
+  pub from: String,
+  pub to: String,
+  pub unchanged: bool,
+  pub issues: Vec<RenameIssue>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct UndoLog {
+  pub folder: String,
+  pub created: u64,
+  pub renames: Vec<Rename>,
+}
+
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ApplyResult {
+  pub renamed: usize,
+  pub log_path: String,
+}
+
+// Files (not folders) directly inside `folder`, sorted by name. Our own undo logs are left out.
+pub fn list_files(folder: &Path) -> Result<Vec<String>, String> {
+  let entries = fs::read_dir(folder).map_err(|e| format!("Could not read {}: {e}", folder.display()))?;
+  let mut files = Vec::new();
+  for entry in entries {
+    let entry = entry.map_err(|e| e.to_string())?;
+    if !entry.file_type().map_err(|e| e.to_string())?.is_file() {
+      continue;
+    }
+    let name = entry.file_name().to_string_lossy().into_owned();
+    if !name.starts_with(LOG_PREFIX) {
+      files.push(name);
+    }
+  }
+  files.sort_by_key(|name| name.to_lowercase());
+  Ok(files)
+}
+
+// Names come from the webview, so anything that isn't a single file name directly in
+// the folder ("../x", "sub/x", an absolute path) is refused rather than followed.
+fn path_reason(name: &str) -> Option<String> {
+  let mut parts = Path::new(name).components();
+  match (parts.next(), parts.next()) {
+    (Some(Component::Normal(part)), None) if part == name && !name.contains(['/', '\\']) => None,
+    _ => Some(format!("\"{name}\" is not a file name in this folder.")),
+  }
+}
+
+fn illegal_reason(name: &str) -> Option<String> {
+  if name.trim().is_empty() {
+    return Some("The new name is empty.".into());
+  }
+  if let Some(c) = name.chars().find(|c| ILLEGAL_CHARS.contains(c) || c.is_control()) {
+    return Some(format!("\"{}\" cannot be used in a filename.", c.escape_default()));
+  }
+  if name.ends_with('.') || name.ends_with(' ') {
+    return Some("Filenames cannot end with a dot or a space.".into());
+  }
+  let stem = name.split('.').next().unwrap_or(name).trim_end();
+  if RESERVED_NAMES.iter().any(|r| r.eq_ignore_ascii_case(stem)) {
+    return Some(format!("\"{stem}\" is a reserved name on Windows."));
+  }
+  None
+}
+
+// Check every rename against the folder as it is now, without touching anything.
+// Names are compared case-insensitively so a plan is safe on any filesystem.
+pub fn preview(folder: &Path, renames: &[Rename]) -> Vec<RenamePreview> {
+  let moving: HashSet<String> = renames
+    .iter()
+    .filter(|r| r.from != r.to)
+    .map(|r| r.from.to_lowercase())
+    .collect();
+  // Everything already in the folder, so "KEEP.wav" collides with "keep.wav" even on a
+  // case-sensitive filesystem
+  let existing: HashSet<String> = fs::read_dir(folder)
+    .map(|entries| entries.flatten().map(|e| e.file_name().to_string_lossy().to_lowercase()).collect())
+    .unwrap_or_default();
+  let mut targets: HashMap<String, usize> = HashMap::new();
+  for r in renames {
+    *targets.entry(r.to.to_lowercase()).or_default() += 1;
+  }
+
+  renames
+    .iter()
+    .map(|r| {
+      let mut issues = Vec::new();
+      let unchanged = r.from == r.to;
+      if let Some(message) = path_reason(&r.from) {
+        issues.push(RenameIssue { kind: IssueKind::Illegal, message });
+      } else if !folder.join(&r.from).is_file() {
+        issues.push(RenameIssue { kind: IssueKind::Missing, message: format!("\"{}\" no longer exists.", r.from) });
+      }
+      if !unchanged {
+        if let Some(message) = path_reason(&r.to).or_else(|| illegal_reason(&r.to)) {
+          issues.push(RenameIssue { kind: IssueKind::Illegal, message });
+        }
+      }
+      let key = r.to.to_lowercase();
+      if targets.get(&key).copied().unwrap_or(0) > 1 {
+        issues.push(RenameIssue { kind: IssueKind::Collision, message: format!("Another file is also being renamed to \"{}\".", r.to) });
+      } else if !unchanged && key != r.from.to_lowercase() && existing.contains(&key) && !moving.contains(&key) {
+        issues.push(RenameIssue { kind: IssueKind::Collision, message: format!("\"{}\" already exists in this folder.", r.to) });
+      }
+      RenamePreview { from: r.from.clone(), to: r.to.clone(), unchanged, issues }
+    })
+    .collect()
+}
+
+// Move every file through a temporary name first so swaps and case-only changes work,
+// and put back whatever was already moved if any step fails.
+fn rename_all(folder: &Path, renames: &[Rename]) -> Result<(), String> {
+  let stamp = now_millis();
+  let mut moves: Vec<(PathBuf, PathBuf)> = Vec::new();
+  for (i, r) in renames.iter().enumerate() {
+    moves.push((folder.join(&r.from), folder.join(format!("{TEMP_PREFIX}{stamp}-{i}"))));
+  }
+  for (i, r) in renames.iter().enumerate() {
+    moves.push((moves[i].1.clone(), folder.join(&r.to)));
+  }
+
+  for (done, (from, to)) in moves.iter().enumerate() {
+    if let Err(e) = fs::rename(from, to) {
+      for (back_from, back_to) in moves[..done].iter().rev() {
+        let _ = fs::rename(back_to, back_from);
+      }
+      return Err(format!("Could not rename {}: {e}", from.display()));
+    }
+  }
+  Ok(())
+}
+
+// Every problem the preview found, one line per issue.
+fn check_plan(folder: &Path, renames: &[Rename]) -> Result<(), String> {
+  let blocked: Vec<String> = preview(folder, renames)
+    .into_iter()
+    .flat_map(|p| p.issues.into_iter().map(move |i| format!("{}: {}", p.from, i.message)))
+    .collect();
+  if blocked.is_empty() {
+    Ok(())
+  } else {
+    Err(blocked.join("\n"))
+  }
+}
+
+fn now_millis() -> u64 {
+  SystemTime::now()
+    .duration_since(UNIX_EPOCH)
+    .map(|d| d.as_millis() as u64)
+    .unwrap_or(0)
+}
+
+// Apply the renames all-or-nothing. Refuses to start if the preview reports any issue,
+// and writes an undo log into the folder before the first file is moved.
+pub fn apply(folder: &Path, renames: &[Rename]) -> Result<ApplyResult, String> {
+  check_plan(folder, renames)?;
+
+  let pending: Vec<Rename> = renames.iter().filter(|r| r.from != r.to).cloned().collect();
+  let log = UndoLog {
+    folder: folder.to_string_lossy().into_owned(),
+    created: now_millis(),
+    renames: pending.clone(),
+  };
+  let log_path = folder.join(format!("{LOG_PREFIX}{}.json", log.created));
+  let contents = serde_json::to_string_pretty(&log).map_err(|e| e.to_string())?;
+  fs::write(&log_path, contents).map_err(|e| format!("Could not write the undo log: {e}"))?;
+
+  if let Err(err) = rename_all(folder, &pending) {
+    let _ = fs::remove_file(&log_path);
+    return Err(err);
+  }
+  Ok(ApplyResult { renamed: pending.len(), log_path: log_path.to_string_lossy().into_owned() })
+}
+
+// Reverse the renames recorded in an undo log, then remove the log.
+pub fn undo(log_path: &Path) -> Result<usize, String> {
+  let contents = fs::read_to_string(log_path).map_err(|e| format!("Could not read {}: {e}", log_path.display()))?;
+  let log: UndoLog = serde_json::from_str(&contents).map_err(|e| format!("Not a rename log: {e}"))?;
+  let folder = log_path.parent().unwrap_or(Path::new(&log.folder));
+  let reversed: Vec<Rename> = log
+    .renames
+    .iter()
+    .map(|r| Rename { from: r.to.clone(), to: r.from.clone() })
+    .collect();
+
+  check_plan(folder, &reversed)?;
+
+  rename_all(folder, &reversed)?;
+  fs::remove_file(log_path).map_err(|e| format!("Renames were undone but the log could not be removed: {e}"))?;
+  Ok(reversed.len())
+}
+
+#[cfg(test)]
+mod tests {
+  use super::*;
+  use std::sync::atomic::{AtomicUsize, Ordering};
+
+  static NEXT_FOLDER: AtomicUsize = AtomicUsize::new(0);
+
+  // A scratch folder holding the given files (name, contents), removed when dropped.
+  struct TempFolder(PathBuf);
+
+  impl TempFolder {
+    fn new(files: &[(&str, &str)]) -> Self {
+      let n = NEXT_FOLDER.fetch_add(1, Ordering::SeqCst);
+      let path = std::env::temp_dir().join(format!("ludonomia-rename-test-{}-{n}", std::process::id()));
+      let _ = fs::remove_dir_all(&path);
+      fs::create_dir_all(&path).unwrap();
+      for (name, contents) in files {
+        fs::write(path.join(name), contents).unwrap();
+      }
+      TempFolder(path)
+    }
+
+    fn read(&self, name: &str) -> String {
+      fs::read_to_string(self.0.join(name)).unwrap()
+    }
+
+    fn files(&self) -> Vec<String> {
+      list_files(&self.0).unwrap()
+    }
+
+    // Every entry in the folder, undo logs included.
+    fn entries(&self) -> usize {
+      fs::read_dir(&self.0).unwrap().count()
+    }
+  }
+
+  impl Drop for TempFolder {
+    fn drop(&mut self) {
+      let _ = fs::remove_dir_all(&self.0);
+    }
+  }
+
+  fn renames(pairs: &[(&str, &str)]) -> Vec<Rename> {
+    pairs.iter().map(|(from, to)| Rename { from: from.to_string(), to: to.to_string() }).collect()
+  }
+
+  fn issue_kinds(folder: &TempFolder, plan: &[Rename]) -> Vec<Vec<IssueKind>> {
+    preview(&folder.0, plan).into_iter().map(|p| p.issues.into_iter().map(|i| i.kind).collect()).collect()
+  }
+
+  #[test]
+  fn swaps_two_files() {
+    let folder = TempFolder::new(&[("a.wav", "A"), ("b.wav", "B")]);
+    let plan = renames(&[("a.wav", "b.wav"), ("b.wav", "a.wav")]);
+    assert_eq!(issue_kinds(&folder, &plan), vec![vec![], vec![]]);
+
+    let result = apply(&folder.0, &plan).unwrap();
+    assert_eq!(result.renamed, 2);
+    assert_eq!(folder.read("a.wav"), "B");
+    assert_eq!(folder.read("b.wav"), "A");
+  }
+
+  #[test]
+  fn follows_a_rename_chain() {
+    let folder = TempFolder::new(&[("1.wav", "one"), ("2.wav", "two"), ("3.wav", "three")]);
+    let plan = renames(&[("1.wav", "2.wav"), ("2.wav", "3.wav"), ("3.wav", "4.wav")]);
+
+    apply(&folder.0, &plan).unwrap();
+    assert_eq!(folder.files(), vec!["2.wav", "3.wav", "4.wav"]);
+    assert_eq!(folder.read("2.wav"), "one");
+    assert_eq!(folder.read("3.wav"), "two");
+    assert_eq!(folder.read("4.wav"), "three");
+  }
+
+  #[test]
+  fn changes_only_the_case_of_a_name() {
+    // Goes through a temporary name, so it also works where "step.wav" and "Step.wav" are the same file
+    let folder = TempFolder::new(&[("step.wav", "S")]);
+    let plan = renames(&[("step.wav", "Step.wav")]);
+    assert_eq!(issue_kinds(&folder, &plan), vec![vec![]]);
+
+    apply(&folder.0, &plan).unwrap();
+    assert_eq!(folder.files(), vec!["Step.wav"]);
+    assert_eq!(folder.read("Step.wav"), "S");
+  }
+
+  #[test]
+  fn refuses_to_overwrite_an_existing_file() {
+    let folder = TempFolder::new(&[("a.wav", "A"), ("keep.wav", "K")]);
+    let plan = renames(&[("a.wav", "keep.wav")]);
+    assert_eq!(issue_kinds(&folder, &plan), vec![vec![IssueKind::Collision]]);
+
+    let err = apply(&folder.0, &plan).unwrap_err();
+    assert_eq!(err, "a.wav: \"keep.wav\" already exists in this folder.");
+    assert_eq!(folder.read("a.wav"), "A");
+    assert_eq!(folder.read("keep.wav"), "K");
+    assert_eq!(folder.entries(), 2, "no undo log is written for a refused plan");
+  }
+
+  #[test]
+  fn treats_names_that_differ_in_case_as_the_same_file() {
+    // "KEEP.wav" would replace "keep.wav" on a case-insensitive filesystem
+    let folder = TempFolder::new(&[("a.wav", "A"), ("b.wav", "B"), ("keep.wav", "K")]);
+    assert_eq!(issue_kinds(&folder, &renames(&[("a.wav", "KEEP.wav")])), vec![vec![IssueKind::Collision]]);
+    assert_eq!(
+      issue_kinds(&folder, &renames(&[("a.wav", "c.wav"), ("b.wav", "C.WAV")])),
+      vec![vec![IssueKind::Collision], vec![IssueKind::Collision]]
+    );
+  }
+
+  #[test]
+  fn allows_a_target_that_is_moved_out_of_the_way() {
+    let folder = TempFolder::new(&[("a.wav", "A"), ("b.wav", "B")]);
+    let plan = renames(&[("a.wav", "b.wav"), ("b.wav", "c.wav")]);
+    assert_eq!(issue_kinds(&folder, &plan), vec![vec![], vec![]]);
+  }
+
+  #[test]
+  fn reports_missing_and_illegal_names() {
+    let folder = TempFolder::new(&[("a.wav", "A")]);
+    let plan = renames(&[("gone.wav", "x.wav"), ("a.wav", "what?.wav")]);
+    assert_eq!(issue_kinds(&folder, &plan), vec![vec![IssueKind::Missing], vec![IssueKind::Illegal]]);
+  }
+
+  #[test]
+  fn refuses_names_outside_the_folder() {
+    let folder = TempFolder::new(&[("a.wav", "A")]);
+    fs::create_dir(folder.0.join("sub")).unwrap();
+    fs::write(folder.0.join("sub").join("b.wav"), "B").unwrap();
+    let plan = renames(&[("a.wav", "../a.wav"), ("a.wav", "sub/a.wav"), ("sub/b.wav", "b.wav"), ("..", "up.wav")]);
+    assert_eq!(
+      issue_kinds(&folder, &plan)
+        .into_iter()
+        .map(|kinds| kinds.into_iter().filter(|k| *k == IssueKind::Illegal).count())
+        .collect::<Vec<_>>(),
+      vec![1, 1, 1, 1]
+    );
+
+    assert!(apply(&folder.0, &renames(&[("sub/b.wav", "b.wav")])).is_err());
+    assert!(apply(&folder.0, &renames(&[("a.wav", "../a.wav")])).is_err());
+    assert_eq!(folder.read("a.wav"), "A");
+    assert_eq!(folder.read("sub/b.wav"), "B");
+    assert!(!folder.0.join("b.wav").exists());
+  }
+
+  #[test]
+  fn undoes_an_applied_plan() {
+    let folder = TempFolder::new(&[("a.wav", "A"), ("b.wav", "B"), ("c.wav", "C")]);
+    let plan = renames(&[("a.wav", "b.wav"), ("b.wav", "a.wav"), ("c.wav", "C.wav")]);
+
+    let result = apply(&folder.0, &plan).unwrap();
+    assert_eq!(folder.files(), vec!["a.wav", "b.wav", "C.wav"], "the undo log is not listed");
+    assert_eq!(folder.entries(), 4);
+
+    assert_eq!(undo(Path::new(&result.log_path)).unwrap(), 3);
+    assert_eq!(folder.files(), vec!["a.wav", "b.wav", "c.wav"]);
+    assert_eq!(folder.read("a.wav"), "A");
+    assert_eq!(folder.read("b.wav"), "B");
+    assert_eq!(folder.entries(), 3, "the undo log is removed");
+  }
+
+  #[test]
+  fn leaves_unchanged_names_out_of_the_undo_log() {
+    let folder = TempFolder::new(&[("a.wav", "A"), ("b.wav", "B")]);
+    let result = apply(&folder.0, &renames(&[("a.wav", "a.wav"), ("b.wav", "c.wav")])).unwrap();
+    assert_eq!(result.renamed, 1);
+
+    let log: UndoLog = serde_json::from_str(&fs::read_to_string(&result.log_path).unwrap()).unwrap();
+    assert_eq!(log.renames, renames(&[("b.wav", "c.wav")]));
+  }
+
+  #[test]
+  fn refuses_to_undo_when_the_files_have_moved_since() {
+    let folder = TempFolder::new(&[("a.wav", "A")]);
+    let result = apply(&folder.0, &renames(&[("a.wav", "b.wav")])).unwrap();
+    fs::rename(folder.0.join("b.wav"), folder.0.join("elsewhere.wav")).unwrap();
+
+    let err = undo(Path::new(&result.log_path)).unwrap_err();
+    assert_eq!(err, "b.wav: \"b.wav\" no longer exists.");
+    assert!(Path::new(&result.log_path).exists(), "the log is kept so the undo can be retried");
+    assert_eq!(folder.files(), vec!["elsewhere.wav"]);
+  }
+}
@@ -0,0 +1,33 @@
+// --- Delivered Asset Scan ---
+// Lists every file under a delivery folder, subfolders included, so coverage reports
+// can compare them against the names a NameSet expects.
+
+use std::fs;
+use std::path::Path;
+
+// File names only: coverage matches on names, wherever in the tree a file sits.
+// Hidden files and folders are skipped, and symlinked folders aren't followed.
+pub fn list_files_recursive(folder: &Path) -> Result<Vec<String>, String> {
+  let mut files = Vec::new();
+  collect(folder, &mut files)?;
+  files.sort_by_key(|name| name.to_lowercase());
+  Ok(files)
+}
+
+fn collect(folder: &Path, files: &mut Vec<String>) -> Result<(), String> {
+  let entries = fs::read_dir(folder).map_err(|e| format!("Could not read {}: {e}", folder.display()))?;
+  for entry in entries {
+    let entry = entry.map_err(|e| e.to_string())?;
+    let name = entry.file_name().to_string_lossy().into_owned();
+    if name.starts_with('.') {
+      continue;
+    }
+    let file_type = entry.file_type().map_err(|e| e.to_string())?;
+    if file_type.is_dir() {
+      collect(&entry.path(), files)?;
+    } else if file_type.is_file() {
+      files.push(name);
+    }
+  }
+  Ok(())
+}
@@ -1,9 +1,10 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useEffectEvent, useRef } from 'react';
 import {
   DndContext,
   closestCenter,
   KeyboardSensor,
   PointerSensor,
+  useDroppable,
   useSensor,
   useSensors
 } from '@dnd-kit/core';
@@ -16,27 +17,74 @@ import {
   useSortable
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GripVertical, Plus, Upload, PlusCircle, Filter, ChevronLeft, ChevronRight, Folder, Tag, X, Copy, Download } from 'lucide-react';
+import { GripVertical, Plus, Upload, PlusCircle, Filter, ChevronLeft, ChevronRight, Folder, Tag, Copy, Download, Save, SlidersHorizontal, ListFilter, FileCheck, FilePen, FileUp, Pencil, Trash2, CopyPlus, X, Undo2, Redo2, HistoryIcon, Library, BookUp, GitBranch, Unlink, RotateCcw, ShieldCheck, ShieldAlert, ClipboardCheck, PieChart, House } from 'lucide-react';
+import type { CompatibilityRule, ConfigObj, CoverageSnapshot, LintSettings, NameSetDef, SlotFormat, SlotMode, TemplateEntry, TermDef } from './core/types.ts';
+import { isEmptyFormat, isSlotKeyOf, slotElement, slotKeys, toSlot, withSlotFormat, withSlotMode } from './core/template.ts';
+import { applyTemplateOrder, parseProject, projectFileName, serializeProject } from './core/projectFile.ts';
+import type { SchemaIssue } from './core/schema.ts';
+import { DEFAULT_DELIMITER, composeName, countRuleRemovals, iterateNames, nameAt, nameSetSpace } from './core/engine.ts';
+import type { PermutationSpace } from './core/engine.ts';
+import { streamLines } from './core/stream.ts';
+import type { StreamOptions } from './core/stream.ts';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_FILE_TYPES, exportLines, rowCount } from './core/export.ts';
+import type { ExportOptions, ExportRows } from './core/export.ts';
+import type { Exporter, ExporterValues } from './core/exporters/index.ts';
+import { mergeImport } from './core/importTerms.ts';
+import {
+  addCoverageSnapshot,
+  createVariant,
+  deleteElement,
+  deleteNameSet,
+  detachVariant,
+  duplicateNameSet,
+  moveTerm,
+  nameSetsUsingElement,
+  removeCoverageSnapshot,
+  removeTerm,
+  renameElement,
+  renameNameSet,
+  setNameSetOverride,
+  updateTerm
+} from './core/projectEdits.ts';
+import type { ImportColumn } from './core/importTerms.ts';
+import { EMPTY_HISTORY, recordCommand, redo, undo } from './core/history.ts';
+import { activeTokens, findTerm, termTokens, toTerms } from './core/terms.ts';
+import type { History, ProjectState } from './core/history.ts';
+import { isLibraryTerm, libraryName, promoteTerms, resolveLibraries } from './core/libraries.ts';
+import { slotOrigins, slotOverrideCount, variantsOf } from './core/inheritance.ts';
+import type { SlotOrigin } from './core/inheritance.ts';
+import { EMPTY_LINT_REPORT, createNameLinter, lintSettings, lintSpace, nameIssues } from './core/lint.ts';
+import type { LintReport } from './core/lint.ts';
+import { parseAssetList } from './core/nameTable.ts';
+import { downloadFile, pickJsonFiles, pickSaveTarget, writeSaveTarget } from './fileAccess.ts';
+import type { OpenedFile, SaveTarget } from './fileAccess.ts';
+import { matchLibraryFiles, readLibraryFile, writeLibraryFile } from './libraryFiles.ts';
+import type { LibraryFile } from './libraryFiles.ts';
+import { AUTOSAVE_DELAY, forgetRecentProject, hasUnsavedChanges, loadRecentProjects, loadSession, rememberProject, saveSession } from './session.ts';
+import type { RecentProject, Session } from './session.ts';
+import Modal from './components/Modal.tsx';
+import IssueList from './components/IssueList.tsx';
+import ComposedNamePanel from './components/ComposedNamePanel.tsx';
+import SlotFormatEditor from './components/SlotFormatEditor.tsx';
+import RuleEditor from './components/RuleEditor.tsx';
+import VariationEditor from './components/VariationEditor.tsx';
+import ValidateNamesPanel from './components/ValidateNamesPanel.tsx';
+import BatchRenamePanel from './components/BatchRenamePanel.tsx';
+import ExportDialog from './components/ExportDialog.tsx';
+import ImportDialog from './components/ImportDialog.tsx';
+import TermList from './components/TermList.tsx';
+import ElementPalette from './components/ElementPalette.tsx';
+import HistoryPanel from './components/HistoryPanel.tsx';
+import TermEditor from './components/TermEditor.tsx';
+import LibrariesPanel from './components/LibrariesPanel.tsx';
+import LintPanel from './components/LintPanel.tsx';
+import NameTable from './components/NameTable.tsx';
+import AssetListDialog from './components/AssetListDialog.tsx';
+import CoveragePanel from './components/CoveragePanel.tsx';
+import StartScreen from './components/StartScreen.tsx';
 import './App.css';
 
-// --- Data Types & Default Config ---
-
-type ElementDef = {
-  terms: string[];
-};
-
-type NameSetDef = {
-  template: string[];
-  delimiter: string;
-  group?: string;
-  tags?: string[];
-};
-
-type ConfigObj = {
-  project_name: string;
-  nameSets: Record<string, NameSetDef>;
-  elements: Record<string, ElementDef>;
-};
+// --- Default Config ---
 
 const DEFAULT_CONFIG: ConfigObj = {
   project_name: "Ludonomia",
@@ -56,25 +104,25 @@ const DEFAULT_CONFIG: ConfigObj = {
   },
   elements: {
     "Sound Type": {
-      terms: ["SFX", "VO", "MX", "AMB"]
+      terms: toTerms(["SFX", "VO", "MX", "AMB"])
     },
     "SurfaceType": {
-      terms: ["Dirt", "Rock", "Metal", "Wood", "Water", "Grass"]
+      terms: toTerms(["Dirt", "Rock", "Metal", "Wood", "Water", "Grass"])
     },
     "CharacterID": {
-      terms: ["Hero", "EnemyA", "Boss1", "NPC"]
+      terms: toTerms(["Hero", "EnemyA", "Boss1", "NPC"])
     },
     "Action": {
-      terms: ["Footstep", "Jump", "Land", "Slide", "Foley"]
+      terms: toTerms(["Footstep", "Jump", "Land", "Slide", "Foley"])
     },
     "WeaponID": {
-      terms: ["Pistol", "Rifle", "Shotgun", "RocketLauncher"]
+      terms: toTerms(["Pistol", "Rifle", "Shotgun", "RocketLauncher"])
     },
     "FireMode": {
-      terms: ["Single", "Burst", "Auto", "Reload"]
+      terms: toTerms(["Single", "Burst", "Auto", "Reload"])
     },
     "Distance": {
-      terms: ["Close", "Med", "Far"]
+      terms: toTerms(["Close", "Med", "Far"])
     }
   }
 };
@@ -84,14 +132,52 @@ const DEFAULT_CONFIG: ConfigObj = {
 interface SortableElementProps {
   id: string;
   element: string;
-  terms: string[];
+  terms: TermDef[];
   selectedValue: string;
+  format: SlotFormat;
+  mode: SlotMode;
+  subsetTerms: string[];
   onChange: (val: string) => void;
   onAddTerm: (term: string) => void;
+  onFormatChange: (format: SlotFormat) => void;
+  onModeChange: (mode: SlotMode) => void;
+  onSubsetChange: (terms: string[]) => void;
+  onRemove: () => void;
+  // Set when the active NameSet is a variant
+  origin?: SlotOrigin;
 }
 
-function SortableElementItem({ id, element, terms, selectedValue, onChange, onAddTerm }: SortableElementProps) {
+const SLOT_ORIGIN_TITLES: Record<SlotOrigin, string> = {
+  inherited: "Inherited from the parent NameSet",
+  pinned: "Inherited from the parent NameSet, pinned in this variant",
+  added: "Added by this variant"
+};
+
+const SLOT_MODE_OPTIONS: { value: SlotMode; label: string }[] = [
+  { value: 'all', label: 'All terms' },
+  { value: 'pinned', label: 'Pinned to selection' },
+  { value: 'optional', label: 'Optional' },
+  { value: 'subset', label: 'Subset of terms' }
+];
+
+function SortableElementItem({
+  id,
+  element,
+  terms,
+  selectedValue,
+  format,
+  mode,
+  subsetTerms,
+  onChange,
+  onAddTerm,
+  onFormatChange,
+  onModeChange,
+  onSubsetChange,
+  onRemove,
+  origin
+}: SortableElementProps) {
   const [newTerm, setNewTerm] = useState("");
+  const [isFormatOpen, setIsFormatOpen] = useState(false);
 
   const {
     attributes,
@@ -111,16 +197,28 @@ function SortableElementItem({ id, element, terms, selectedValue, onChange, onAd
     <div
       ref={setNodeRef}
       style={style}
-      className={`sortable-wrapper ${isDragging ? 'dragging' : ''}`}
+      className={`sortable-wrapper ${isDragging ? 'dragging' : ''} ${origin ? `slot-${origin}` : ''}`}
       {...attributes}
       {...listeners}
     >
-      <div className="template-brace">{`{${element}}`}</div>
+      <div className="template-brace" title={origin && SLOT_ORIGIN_TITLES[origin]}>{`{${element}}`}</div>
       <div className="sortable-item">
         <div className="item-header">
           <span>{element}</span>
-          <div className="drag-handle">
-            <GripVertical size={18} />
+          <div className="item-header-actions">
+            <button
+              className={`icon-btn ${!isEmptyFormat(format) ? 'active' : ''}`}
+              onClick={() => setIsFormatOpen(!isFormatOpen)}
+              title="Formatting rules"
+            >
+              <SlidersHorizontal size={14} />
+            </button>
+            <button className="icon-btn" onClick={onRemove} title="Remove from template">
+              <X size={14} />
+            </button>
+            <div className="drag-handle">
+              <GripVertical size={18} />
+            </div>
           </div>
         </div>
         <select
@@ -128,12 +226,44 @@ function SortableElementItem({ id, element, terms, selectedValue, onChange, onAd
           value={selectedValue}
           onChange={(e) => onChange(e.target.value)}
         >
-          <option value="" disabled>Select {element}...</option>
-          {terms.map(t => (
-            <option key={t} value={t}>{t}</option>
+          {mode === 'optional'
+            ? <option value="">(Leave out)</option>
+            : <option value="" disabled>Select {element}...</option>}
+          {terms.filter(t => !t.deprecated || t.token === selectedValue).map(t => (
+            <option key={t.token} value={t.token} title={t.description}>
+              {t.label ? `${t.label} (${t.token})` : t.token}{t.deprecated ? " (deprecated)" : ""}
+            </option>
+          ))}
+        </select>
+
+        <select
+          className={`term-select slot-mode-select ${mode !== 'all' ? 'active' : ''}`}
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as SlotMode)}
+          title="How this element varies when generating names"
+        >
+          {SLOT_MODE_OPTIONS.map(m => (
+            <option key={m.value} value={m.value}>{m.label}</option>
           ))}
         </select>
 
+        {mode === 'subset' && (
+          <div className="subset-picker">
+            {terms.filter(t => !t.deprecated).map(({ token, label, description }) => (
+              <label key={token} className="slot-format-check" title={description}>
+                <input
+                  type="checkbox"
+                  checked={subsetTerms.includes(token)}
+                  onChange={e => onSubsetChange(
+                    e.target.checked ? [...subsetTerms, token] : subsetTerms.filter(st => st !== token)
+                  )}
+                />
+                {label || token}
+              </label>
+            ))}
+          </div>
+        )}
+
         <div className="add-term-container">
           <input
             type="text"
@@ -161,29 +291,53 @@ function SortableElementItem({ id, element, terms, selectedValue, onChange, onAd
             <Plus size={16} />
           </button>
         </div>
+
+        {isFormatOpen && <SlotFormatEditor format={format} onChange={onFormatChange} />}
       </div>
     </div>
   );
 }
 
+// --- Template Drop Zone ---
+// End of the template row, where elements dragged in from the palette are appended.
+
+const TEMPLATE_END_ID = 'template-end';
+
+function TemplateDropZone() {
+  const { setNodeRef, isOver } = useDroppable({ id: TEMPLATE_END_ID });
+  return (
+    <div ref={setNodeRef} className={`template-drop-zone ${isOver ? 'over' : ''}`}>
+      <Plus size={16} />
+      <span>Drop an element here</span>
+    </div>
+  );
+}
+
 // --- Main App Component ---
 
+const MAX_COMPOSED_HISTORY = 25;
+
+// Each element starts on its first term
+function defaultSelections(config: ConfigObj): Record<string, string> {
+  return Object.fromEntries(Object.keys(config.elements).map(wc => [wc, activeTokens(config.elements[wc])[0] || ""]));
+}
+
+// What the start screen offers. It shows on launch, and again from the editor's Home button.
+type StartState = {
+  session: Session | null;
+  recent: RecentProject[];
+  fromEditor: boolean;
+};
+
 function App() {
   const [config, setConfig] = useState<ConfigObj>(DEFAULT_CONFIG);
   const [activeNameSet, setActiveNameSet] = useState<string>("Locomotion");
 
   // The ordered elements for the current name set
-  const [templateOrder, setTemplateOrder] = useState<string[]>(config.nameSets["Locomotion"].template);
+  const [templateOrder, setTemplateOrder] = useState<TemplateEntry[]>(config.nameSets["Locomotion"].template);
 
   // State for user-selected terms for each element
-  const [selections, setSelections] = useState<Record<string, string>>(() => {
-    const defaultSels: Record<string, string> = {};
-    Object.keys(config.elements).forEach(wc => {
-      // default select first term
-      defaultSels[wc] = config.elements[wc].terms[0];
-    });
-    return defaultSels;
-  });
+  const [selections, setSelections] = useState<Record<string, string>>(() => defaultSelections(config));
 
   // UI state for Namesets
   const [filterGroup, setFilterGroup] = useState<string>("All");
@@ -199,13 +353,182 @@ function App() {
   const [isCreatingElement, setIsCreatingElement] = useState<boolean>(false);
   const [newElementName, setNewElementName] = useState<string>("");
 
+  // Save state: where the project was last saved to and what it looked like then
+  const [saveTarget, setSaveTarget] = useState<SaveTarget | null>(null);
+  const [savedSnapshot, setSavedSnapshot] = useState<string>(() => serializeProject(DEFAULT_CONFIG));
+
+  // Problems found in the last project file that failed to load
+  const [loadIssues, setLoadIssues] = useState<{ fileName: string; issues: SchemaIssue[] } | null>(null);
+
+  const projectToSave = useMemo(
+    () => applyTemplateOrder(config, activeNameSet, templateOrder),
+    [config, activeNameSet, templateOrder]
+  );
+  const serializedProject = useMemo(() => serializeProject(projectToSave), [projectToSave]);
+
+  // The active NameSet as resolved, and where each slot comes from when it is a variant
+  const activeDef = projectToSave.nameSets[activeNameSet];
+  const activeParent = activeDef?.extends;
+  const activeOrigins = useMemo(
+    () => activeParent !== undefined && projectToSave.nameSets[activeParent]
+      ? slotOrigins(projectToSave.nameSets[activeParent].template, templateOrder)
+      : null,
+    [projectToSave, activeParent, templateOrder]
+  );
+
+  // Shared element libraries the project references, as found so far this session.
+  // The project keeps only its own elements; everything else reads the merged view.
+  const [libraryFiles, setLibraryFiles] = useState<LibraryFile[]>([]);
+  const [isLibrariesOpen, setIsLibrariesOpen] = useState<boolean>(false);
+  const resolvedProject = useMemo(() => resolveLibraries(projectToSave, libraryFiles), [projectToSave, libraryFiles]);
+  const elements = resolvedProject.config.elements;
+  const libraryIssues = resolvedProject.issues;
+  const libraryOf = (element: string) => Object.values(resolvedProject.origins[element] || {})[0];
+  const isDirty = serializedProject !== savedSnapshot;
+
+  // Warn before closing the window with unsaved changes
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  // --- Autosave & Start Screen ---
+  // 'loading' until the stored session and recent projects have been read
+  const [start, setStart] = useState<StartState | 'loading' | null>('loading');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadSession(), loadRecentProjects()]).then(([session, recent]) => {
+      if (!cancelled) setStart({ session, recent, fromEditor: false });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Paused while the start screen is up, so the stored session survives until the
+  // user has decided whether to restore it
+  useEffect(() => {
+    if (start !== null) return;
+    const timer = setTimeout(() => {
+      saveSession({
+        savedAt: new Date().toISOString(),
+        projectName: projectToSave.project_name,
+        project: serializedProject,
+        savedProject: savedSnapshot,
+        fileName: saveTarget?.fileName,
+        activeNameSet,
+        selections,
+        ui: { filterGroup, filterTag, isProjectBrowserOpen, projectBrowserTab }
+      });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [
+    start,
+    projectToSave.project_name,
+    serializedProject,
+    savedSnapshot,
+    saveTarget,
+    activeNameSet,
+    selections,
+    filterGroup,
+    filterTag,
+    isProjectBrowserOpen,
+    projectBrowserTab
+  ]);
+
+  // --- Undo/Redo ---
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+
+  const currentState = (): ProjectState => ({ config: projectToSave, activeNameSet, selections });
+
+  // Call before applying a project edit so it can be undone. Edits sharing a merge key
+  // in quick succession (typing into one field) undo together.
+  const recordEdit = (label: string, mergeKey?: string) => {
+    setHistory(prev => recordCommand(prev, { label, before: currentState(), at: Date.now(), mergeKey }));
+  };
+
+  const restoreState = (state: ProjectState) => {
+    setConfig(state.config);
+    setActiveNameSet(state.activeNameSet);
+    setTemplateOrder(state.config.nameSets[state.activeNameSet]?.template || []);
+    setSelections(state.selections);
+  };
+
+  const handleUndo = (steps = 1) => {
+    const result = undo(history, currentState(), steps);
+    if (!result) return;
+    setHistory(result.history);
+    restoreState(result.state);
+  };
+
+  const handleRedo = (steps = 1) => {
+    const result = redo(history, steps);
+    if (!result) return;
+    setHistory(result.history);
+    restoreState(result.state);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y). Text fields keep their own undo.
+  const handleHistoryKey = useEffectEvent((e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      handleUndo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      handleRedo();
+    }
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleHistoryKey(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const confirmDiscardChanges = () => {
+    return !isDirty || confirm("You have unsaved changes that will be lost. Continue?");
+  };
+
   const sensors = useSensors(
-    useSensor(PointerSensor),
+    // Require a small drag distance so clicks on the controls inside each item still register
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
     useSensor(KeyboardSensor, {
       coordinateGetter: sortableKeyboardCoordinates,
     })
   );
 
+  // Replace the open project, starting on its first NameSet with a fresh history
+  const openProject = (loadedConfig: ConfigObj, fileName: string | null) => {
+    setConfig(loadedConfig);
+
+    const firstNameSet = Object.keys(loadedConfig.nameSets)[0];
+    if (firstNameSet) {
+      setActiveNameSet(firstNameSet);
+      setTemplateOrder(loadedConfig.nameSets[firstNameSet].template);
+    } else {
+      setActiveNameSet("");
+      setTemplateOrder([]);
+    }
+    setSelections(defaultSelections(loadedConfig));
+
+    setSaveTarget(fileName ? { fileName } : null);
+    setSavedSnapshot(serializeProject(loadedConfig));
+    setHistory(EMPTY_HISTORY);
+    setLibraryFiles([]);
+    // Library files have to be located by hand before their elements show up
+    if (loadedConfig.libraries?.length) setIsLibrariesOpen(true);
+    setStart(null);
+  };
+
   // Handle Load Project
   const handleLoadProject = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -213,78 +536,227 @@ function App() {
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const result = e.target?.result as string;
+      const result = parseProject(e.target?.result as string);
 
-        // Minor migration layer so old JSON config schemas still sort of work
-        let parsedResult = result;
-        if (result.includes('"presets"')) {
-          parsedResult = parsedResult.replace(/"presets"/g, '"nameSets"');
-        }
-        if (result.includes('"categories"')) {
-          parsedResult = parsedResult.replace(/"categories"/g, '"elements"');
-        }
+      if (!result.ok) {
+        console.error("Failed to load project file", result.issues);
+        setLoadIssues({ fileName: file.name, issues: result.issues });
+      } else {
+        openProject(result.config, file.name);
+        rememberProject({ fileName: file.name, projectName: result.config.project_name, project: serializeProject(result.config) });
+      }
 
-        const loadedConfig = JSON.parse(parsedResult) as ConfigObj;
+      event.target.value = '';
+    };
+    reader.readAsText(file);
+  };
 
-        if (!loadedConfig.nameSets || !loadedConfig.elements) {
-          throw new Error("Invalid project format");
-        }
+  // Handle Save Project
+  const writeProject = async (target: SaveTarget) => {
+    try {
+      await writeSaveTarget(target, serializedProject);
+      setConfig(projectToSave);
+      setSaveTarget(target);
+      setSavedSnapshot(serializedProject);
+      rememberProject({ fileName: target.fileName, projectName: projectToSave.project_name, project: serializedProject });
+    } catch (err) {
+      console.error("Failed to save project file", err);
+      alert("Failed to save project.");
+    }
+  };
 
-        // Migrate older configs to ensure group and tags exist
-        Object.keys(loadedConfig.nameSets).forEach(k => {
-          if (loadedConfig.nameSets[k].group === undefined) loadedConfig.nameSets[k].group = "";
-          if (loadedConfig.nameSets[k].tags === undefined) loadedConfig.nameSets[k].tags = [];
-        });
-
-        setConfig(loadedConfig);
-
-        const firstNameSet = Object.keys(loadedConfig.nameSets)[0];
-        if (firstNameSet) {
-          setActiveNameSet(firstNameSet);
-          setTemplateOrder(loadedConfig.nameSets[firstNameSet].template);
-        } else {
-          setActiveNameSet("");
-          setTemplateOrder([]);
-        }
+  const handleSaveProjectAs = async () => {
+    let target: SaveTarget | null;
+    try {
+      target = await pickSaveTarget(saveTarget?.fileName || projectFileName(config));
+    } catch (err) {
+      console.error("Failed to pick where to save the project", err);
+      alert("Failed to save project.");
+      return;
+    }
+    if (target) await writeProject(target);
+  };
 
-        const defaultSels: Record<string, string> = {};
-        Object.keys(loadedConfig.elements).forEach(wc => {
-          defaultSels[wc] = loadedConfig.elements[wc].terms[0] || "";
-        });
-        setSelections(defaultSels);
+  const handleSaveProject = async () => {
+    if (saveTarget?.handle) {
+      await writeProject(saveTarget);
+    } else {
+      await handleSaveProjectAs();
+    }
+  };
 
-      } catch (err) {
-        console.error("Failed to load project file", err);
-        alert("Failed to load project: Invalid JSON file format.");
-      }
+  // --- Start Screen Actions ---
 
-      event.target.value = '';
-    };
-    reader.readAsText(file);
+  // Picking anything else on the start screen gives up the unsaved session it offers
+  const confirmLeaveStart = () => {
+    const session = start !== 'loading' ? start?.session : null;
+    if (session && hasUnsavedChanges(session)) {
+      return confirm(`The unsaved changes to "${session.projectName}" from the last session will be lost. Continue?`);
+    }
+    return confirmDiscardChanges();
+  };
+
+  const handleRestoreSession = (session: Session) => {
+    const result = parseProject(session.project);
+    if (!result.ok) {
+      setLoadIssues({ fileName: "the autosaved session", issues: result.issues });
+      return;
+    }
+    const restored = result.config;
+    const nameSet = restored.nameSets[session.activeNameSet] ? session.activeNameSet : Object.keys(restored.nameSets)[0] ?? "";
+    setConfig(restored);
+    setActiveNameSet(nameSet);
+    setTemplateOrder(restored.nameSets[nameSet]?.template || []);
+    setSelections({ ...defaultSelections(restored), ...session.selections });
+    setFilterGroup(session.ui.filterGroup);
+    setFilterTag(session.ui.filterTag);
+    setIsProjectBrowserOpen(session.ui.isProjectBrowserOpen);
+    setProjectBrowserTab(session.ui.projectBrowserTab);
+    // File handles can't be stored, so the next Save asks where to write
+    setSaveTarget(session.fileName ? { fileName: session.fileName } : null);
+    setSavedSnapshot(session.savedProject);
+    setHistory(EMPTY_HISTORY);
+    setLibraryFiles([]);
+    if (restored.libraries?.length) setIsLibrariesOpen(true);
+    setStart(null);
+  };
+
+  const handleOpenRecent = (recent: RecentProject) => {
+    if (!confirmLeaveStart()) return;
+    const result = parseProject(recent.project);
+    if (!result.ok) {
+      setLoadIssues({ fileName: recent.fileName, issues: result.issues });
+      return;
+    }
+    openProject(result.config, recent.fileName);
+    rememberProject({ fileName: recent.fileName, projectName: result.config.project_name, project: recent.project });
+  };
+
+  const handleForgetRecent = async (fileName: string) => {
+    const recent = await forgetRecentProject(fileName);
+    setStart(prev => prev && prev !== 'loading' ? { ...prev, recent } : prev);
+  };
+
+  const handleStartDemo = () => {
+    if (confirmLeaveStart()) openProject(DEFAULT_CONFIG, null);
+  };
+
+  const handleShowStartScreen = async () => {
+    setStart({ session: null, recent: await loadRecentProjects(), fromEditor: true });
   };
 
   // Handle Name Set Change
   const handleNameSetChange = (nameSetName: string) => {
+    // Keep the outgoing NameSet's drag order instead of dropping it. Variants of it
+    // pick up the change, so the incoming template is read from the result.
+    const next = applyTemplateOrder(config, activeNameSet, templateOrder);
+    setConfig(next);
     setActiveNameSet(nameSetName);
-    setTemplateOrder(config.nameSets[nameSetName].template);
+    setTemplateOrder(next.nameSets[nameSetName].template);
+  };
+
+  // Selections are keyed by slot, and an element's slot keys shift when its slots move
+  // or go away. Carry each selection over from the key its slot had before.
+  const rekeySelections = (previousKeys: (string | undefined)[], nextTemplate: TemplateEntry[]) => {
+    const nextKeys = slotKeys(nextTemplate);
+    setSelections(prev => {
+      const next = { ...prev };
+      nextKeys.forEach(key => delete next[key]);
+      nextKeys.forEach((key, i) => {
+        const from = previousKeys[i];
+        const element = slotElement(nextTemplate[i]);
+        next[key] = from !== undefined && prev[from] !== undefined
+          ? prev[from]
+          : activeTokens(elements[element])[0] || "";
+      });
+      return next;
+    });
+  };
+
+  // Add a slot for `element` at `index` (the end by default)
+  const handleAddSlot = (element: string, index = templateOrder.length) => {
+    recordEdit(`Add {${element}} to template`);
+    const keys: (string | undefined)[] = slotKeys(templateOrder);
+    const next = [...templateOrder];
+    next.splice(index, 0, element);
+    keys.splice(index, 0, undefined);
+    setTemplateOrder(next);
+    rekeySelections(keys, next);
+  };
+
+  const handleRemoveSlot = (index: number) => {
+    recordEdit(`Remove {${slotElement(templateOrder[index])}} from template`);
+    const keys = slotKeys(templateOrder).filter((_, i) => i !== index);
+    const next = templateOrder.filter((_, i) => i !== index);
+    setTemplateOrder(next);
+    rekeySelections(keys, next);
   };
 
-  // Handle Drag Reorder
+  // Handle Drag Reorder, or a drop from the element palette
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
-    if (over && active.id !== over.id) {
-      setTemplateOrder((items) => {
-        const oldIndex = items.indexOf(active.id as string);
-        const newIndex = items.indexOf(over.id as string);
-        return arrayMove(items, oldIndex, newIndex);
-      });
+    if (!over) return;
+    const keys = slotKeys(templateOrder);
+
+    const paletteElement = active.data.current?.paletteElement as string | undefined;
+    if (paletteElement !== undefined) {
+      const index = keys.indexOf(over.id as string);
+      handleAddSlot(paletteElement, index === -1 ? templateOrder.length : index);
+      return;
+    }
+
+    if (active.id !== over.id) {
+      const oldIndex = keys.indexOf(active.id as string);
+      const newIndex = keys.indexOf(over.id as string);
+      if (oldIndex === -1 || newIndex === -1) return;
+      recordEdit("Reorder template");
+      const next = arrayMove(templateOrder, oldIndex, newIndex);
+      setTemplateOrder(next);
+      rekeySelections(arrayMove(keys, oldIndex, newIndex), next);
     }
   };
 
-  // Handle Selection Change
-  const handleSelectionChange = (element: string, value: string) => {
-    setSelections(prev => ({ ...prev, [element]: value }));
+  // Handle Slot Formatting Change
+  const handleSlotFormatChange = (index: number, format: SlotFormat) => {
+    recordEdit(`Format {${slotElement(templateOrder[index])}}`, `format:${activeNameSet}:${index}`);
+    setTemplateOrder(items => items.map((entry, i) => i === index ? withSlotFormat(entry, format) : entry));
+  };
+
+  // Handle Slot Mode Change
+  const handleSlotModeChange = (index: number, mode: SlotMode) => {
+    const key = slotKeys(templateOrder)[index];
+    recordEdit(`Set {${slotElement(templateOrder[index])}} to ${mode}`);
+    setTemplateOrder(items => items.map((entry, i) => {
+      if (i !== index) return entry;
+      // Pin to whatever is selected right now; a new subset starts with every term
+      const element = slotElement(entry);
+      return withSlotMode(entry, mode, {
+        pinned: selections[key] || undefined,
+        terms: toSlot(entry).terms ?? activeTokens(elements[element])
+      });
+    }));
+  };
+
+  const handleSlotSubsetChange = (index: number, terms: string[]) => {
+    recordEdit(`Edit {${slotElement(templateOrder[index])}} subset`);
+    setTemplateOrder(items => items.map((entry, i) => i === index ? withSlotMode(entry, 'subset', { terms }) : entry));
+  };
+
+  // Handle Selection Change (for the slot with the given key)
+  const handleSelectionChange = (key: string, value: string) => {
+    const pinnedIndex = templateKeys.indexOf(key);
+    if (pinnedIndex !== -1 && toSlot(templateOrder[pinnedIndex]).mode === 'pinned') {
+      recordEdit(`Pin {${key}} to ${value || "nothing"}`);
+    }
+    setSelections(prev => ({ ...prev, [key]: value }));
+    // A slot pinned to the selection follows it
+    setTemplateOrder(items => {
+      const keys = slotKeys(items);
+      const index = keys.indexOf(key);
+      const slot = index === -1 ? null : toSlot(items[index]);
+      if (!slot || slot.mode !== 'pinned' || slot.pinned === value) return items;
+      return items.map((e, i) => i === index ? withSlotMode(e, 'pinned', { pinned: value || undefined }) : e);
+    });
   };
 
   // Handle creating new nameset
@@ -296,8 +768,9 @@ function App() {
       return;
     }
     const currentTemplate = config.nameSets[activeNameSet]?.template || [];
-    const currentDelimiter = config.nameSets[activeNameSet]?.delimiter || "_";
+    const currentDelimiter = config.nameSets[activeNameSet]?.delimiter ?? DEFAULT_DELIMITER;
 
+    recordEdit(`Create NameSet "${trimmed}"`);
     setConfig(prev => ({
       ...prev,
       nameSets: {
@@ -319,10 +792,11 @@ function App() {
   const handleCreateElement = () => {
     const trimmed = newElementName.trim();
     if (!trimmed) return;
-    if (config.elements[trimmed]) {
+    if (elements[trimmed]) {
       alert("Element already exists!");
       return;
     }
+    recordEdit(`Create element "${trimmed}"`);
     setConfig(prev => ({
       ...prev,
       elements: {
@@ -334,24 +808,147 @@ function App() {
     setNewElementName("");
   };
 
+  // Apply a whole-project edit. The live template order is folded in first, and read
+  // back afterwards in case the edit changed the active NameSet's template.
+  const applyProjectEdit = (label: string, edit: (config: ConfigObj) => ConfigObj, nextActiveNameSet = activeNameSet) => {
+    recordEdit(label);
+    const next = edit(applyTemplateOrder(config, activeNameSet, templateOrder));
+    setConfig(next);
+    setActiveNameSet(nextActiveNameSet);
+    setTemplateOrder(next.nameSets[nextActiveNameSet]?.template || []);
+  };
+
   const handleRemoveElementTerm = (element: string, termToRemove: string) => {
-    setConfig(prev => {
-      const wc = prev.elements[element];
-      return {
-        ...prev,
-        elements: {
-          ...prev.elements,
-          [element]: {
-            ...wc,
-            terms: wc.terms.filter(t => t !== termToRemove)
-          }
-        }
-      };
-    });
+    applyProjectEdit(`Remove "${termToRemove}" from ${element}`, prev => removeTerm(prev, element, termToRemove));
+    // Move any selection off the removed term
+    const remaining = activeTokens(elements[element]).filter(t => t !== termToRemove);
+    setSelections(prev => Object.fromEntries(Object.entries(prev).map(([key, term]) => [
+      key,
+      term === termToRemove && isSlotKeyOf(key, element) ? remaining[0] || "" : term
+    ])));
+  };
+
+  const [editingTerm, setEditingTerm] = useState<{ element: string; token: string } | null>(null);
+
+  const handleUpdateTerm = (element: string, token: string, term: TermDef) => {
+    setEditingTerm(null);
+    applyProjectEdit(`Edit ${element} term "${token}"`, prev => updateTerm(prev, element, token, term));
+    // Selections follow a changed token, and move off a term that is now deprecated
+    const replacement = term.deprecated
+      ? activeTokens(elements[element]).find(t => t !== token) || ""
+      : term.token;
+    if (replacement !== token) {
+      setSelections(prev => Object.fromEntries(Object.entries(prev).map(([key, selected]) => [
+        key,
+        selected === token && isSlotKeyOf(key, element) ? replacement : selected
+      ])));
+    }
+  };
+
+  // Indices are into the merged term list. Library terms stay where the library puts
+  // them, so the move happens within the project's own terms.
+  const handleMoveTerm = (element: string, fromIndex: number, toIndex: number) => {
+    const shown = elements[element]?.terms || [];
+    const own = config.elements[element]?.terms || [];
+    const from = own.findIndex(t => t.token === shown[fromIndex]?.token);
+    const to = own.findIndex(t => t.token === shown[toIndex]?.token);
+    if (from === -1 || to === -1) return;
+    recordEdit(`Reorder ${element} terms`);
+    setConfig(prev => moveTerm(prev, element, from, to));
+  };
+
+  // Library elements are renamed and deleted in their library, not from a project
+  const refuseLibraryElement = (element: string) => {
+    const path = libraryOf(element);
+    if (path === undefined) return false;
+    alert(`"${element}" comes from the library "${path}". Change it there instead.`);
+    return true;
+  };
+
+  const handleRenameElement = (element: string) => {
+    if (refuseLibraryElement(element)) return;
+    const name = prompt(`Rename element "${element}" to:`, element)?.trim();
+    if (!name || name === element) return;
+    if (elements[name]) {
+      alert("Element already exists!");
+      return;
+    }
+    applyProjectEdit(`Rename element "${element}" to "${name}"`, prev => renameElement(prev, element, name));
+    setSelections(prev => Object.fromEntries(Object.entries(prev).map(([key, term]) => [
+      isSlotKeyOf(key, element) ? name + key.slice(element.length) : key,
+      term
+    ])));
+  };
+
+  const handleDeleteElement = (element: string) => {
+    if (refuseLibraryElement(element)) return;
+    const users = nameSetsUsingElement(applyTemplateOrder(config, activeNameSet, templateOrder), element);
+    const message = users.length > 0
+      ? `Element "${element}" is used by ${users.length} NameSet(s): ${users.join(', ')}.\n\nDeleting it removes it from their templates and rules. Delete anyway?`
+      : `Delete element "${element}"?`;
+    if (!confirm(message)) return;
+    applyProjectEdit(`Delete element "${element}"`, prev => deleteElement(prev, element));
+    setSelections(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => !isSlotKeyOf(key, element))));
+  };
+
+  const handleRenameNameSet = () => {
+    const name = prompt(`Rename NameSet "${activeNameSet}" to:`, activeNameSet)?.trim();
+    if (!name || name === activeNameSet) return;
+    if (config.nameSets[name]) {
+      alert("Nameset already exists!");
+      return;
+    }
+    applyProjectEdit(`Rename NameSet "${activeNameSet}" to "${name}"`, prev => renameNameSet(prev, activeNameSet, name), name);
+  };
+
+  const handleDuplicateNameSet = () => {
+    const name = prompt(`Duplicate NameSet "${activeNameSet}" as:`, `${activeNameSet} Copy`)?.trim();
+    if (!name) return;
+    if (config.nameSets[name]) {
+      alert("Nameset already exists!");
+      return;
+    }
+    applyProjectEdit(`Duplicate NameSet "${activeNameSet}"`, prev => duplicateNameSet(prev, activeNameSet, name), name);
+  };
+
+  // A variant starts out following the active NameSet in everything
+  const handleCreateVariant = () => {
+    const name = prompt(`Name of the new variant of "${activeNameSet}":`, `${activeNameSet}_Variant`)?.trim();
+    if (!name) return;
+    if (config.nameSets[name]) {
+      alert("Nameset already exists!");
+      return;
+    }
+    applyProjectEdit(`Create variant "${name}" of "${activeNameSet}"`, prev => createVariant(prev, activeNameSet, name), name);
+  };
+
+  const handleDetachVariant = () => {
+    const parent = config.nameSets[activeNameSet]?.extends;
+    if (!parent) return;
+    if (!confirm(`Stop "${activeNameSet}" following "${parent}"? It keeps its current template, but later changes to "${parent}" won't reach it.`)) return;
+    applyProjectEdit(`Detach "${activeNameSet}" from "${parent}"`, prev => detachVariant(prev, activeNameSet));
   };
 
-  // Handle Update Active NameSet Metadata (Group/Tags)
-  const handleUpdateNameSetMeta = (field: 'group' | 'tags', value: string | string[]) => {
+  const handleDeleteNameSet = () => {
+    const variants = variantsOf(config, activeNameSet);
+    const message = variants.length > 0
+      ? `Delete NameSet "${activeNameSet}"? Its template, rules and settings will be lost.\n\n${variants.join(', ')} will keep their current templates but stop following it.`
+      : `Delete NameSet "${activeNameSet}"? Its template, rules and settings will be lost.`;
+    if (!confirm(message)) return;
+    const remaining = Object.keys(config.nameSets).filter(ns => ns !== activeNameSet);
+    applyProjectEdit(`Delete NameSet "${activeNameSet}"`, prev => deleteNameSet(prev, activeNameSet), remaining[0] || "");
+  };
+
+  // Handle Update Active NameSet Metadata (Group/Tags/Delimiter/Variations)
+  const handleUpdateNameSetMeta = <K extends 'group' | 'tags' | 'delimiter' | 'variations'>(field: K, value: NameSetDef[K]) => {
+    recordEdit(`Edit ${activeNameSet} ${field}`, `meta:${activeNameSet}:${field}`);
+    // A variant's delimiter and tags are overrides of its parent's
+    if (activeParent !== undefined && (field === 'delimiter' || field === 'tags')) {
+      setConfig(prev => field === 'delimiter'
+        ? setNameSetOverride(prev, activeNameSet, 'delimiter', value as string)
+        : setNameSetOverride(prev, activeNameSet, 'tags', value as string[]));
+      return;
+    }
     setConfig(prev => ({
       ...prev,
       nameSets: {
@@ -364,18 +961,44 @@ function App() {
     }));
   };
 
+  const handleResetOverride = (field: 'delimiter' | 'tags') => {
+    recordEdit(`Inherit ${activeNameSet} ${field} from ${activeParent}`);
+    setConfig(prev => setNameSetOverride(prev, activeNameSet, field, undefined));
+  };
+
+  // Handle Update Active NameSet Compatibility Rules
+  const handleUpdateRules = (rules: CompatibilityRule[]) => {
+    recordEdit(`Edit ${activeNameSet} rules`, `rules:${activeNameSet}`);
+    setConfig(prev => ({
+      ...prev,
+      nameSets: {
+        ...prev.nameSets,
+        [activeNameSet]: {
+          ...prev.nameSets[activeNameSet],
+          rules: rules.length > 0 ? rules : undefined
+        }
+      }
+    }));
+  };
+
   // Handle adding new term to config
-  const handleAddTerm = (element: string, term: string) => {
+  const handleAddTerm = (element: string, term: string, key = element) => {
+    if (termTokens(elements[element]).includes(term)) {
+      handleSelectionChange(key, term);
+      return;
+    }
+    recordEdit(`Add "${term}" to ${element}`);
     setConfig(prev => {
-      const wc = prev.elements[element];
-      if (!wc.terms.includes(term)) {
+      // A library element gets a project entry of its own for the new term
+      const wc = prev.elements[element] ?? { terms: [] };
+      if (!termTokens(wc).includes(term)) {
         return {
           ...prev,
           elements: {
             ...prev.elements,
             [element]: {
               ...wc,
-              terms: [...wc.terms, term]
+              terms: [...wc.terms, { token: term }]
             }
           }
         };
@@ -383,49 +1006,389 @@ function App() {
       return prev;
     });
     // Auto-select the newly added term
-    handleSelectionChange(element, term);
+    handleSelectionChange(key, term);
   };
 
-  // Generate permutations for current template
-  const permutations = useMemo(() => {
-    if (templateOrder.length === 0) return [];
+  const handleImportTerms = (columns: ImportColumn[]) => {
+    recordEdit("Import terms");
+    // Terms a library already provides aren't copied into the project
+    const own = columns.map(column => {
+      const shared = termTokens(elements[column.element.trim()]).map(t => t.toLowerCase());
+      return { ...column, terms: column.terms.filter(t => !shared.includes(t.toLowerCase())) };
+    });
+    setConfig(prev => ({ ...prev, elements: mergeImport(prev.elements, own) }));
+    setIsImportOpen(false);
+  };
 
-    let perms: string[][] = [[]];
-    const MAX_SAFE_PERMUTATIONS = 10000;
+  // --- Libraries ---
 
-    for (const element of templateOrder) {
-      const terms = config.elements[element]?.terms || [];
-      const elementsToAdd = terms.length > 0 ? terms : [`{${element}}`];
+  // Read picked files into the libraries they belong to, matched by file name
+  const loadLibraryFiles = async (paths: string[], picked: OpenedFile[]) => {
+    const loaded = await Promise.all(matchLibraryFiles(paths, picked).map(({ path, opened }) => readLibraryFile(path, opened)));
+    setLibraryFiles(prev => [...prev.filter(f => !loaded.some(l => l.path === f.path)), ...loaded]);
+    // Give elements that just appeared a selection
+    setSelections(prev => {
+      const next = { ...prev };
+      loaded.forEach(file => Object.entries(file.library?.elements || {}).forEach(([element, def]) => {
+        if (next[element] === undefined) next[element] = activeTokens(def)[0] || "";
+      }));
+      return next;
+    });
+    return loaded;
+  };
 
-      const newPerms: string[][] = [];
-      for (const p of perms) {
-        for (const term of elementsToAdd) {
-          newPerms.push([...p, term]);
-          if (newPerms.length > MAX_SAFE_PERMUTATIONS) break;
-        }
-        if (newPerms.length > MAX_SAFE_PERMUTATIONS) break;
-      }
-      perms = newPerms;
+  const handleLocateLibraries = async () => {
+    const paths = (config.libraries || []).filter(path => !libraryFiles.find(f => f.path === path)?.library);
+    let loaded: LibraryFile[];
+    try {
+      const picked = await pickJsonFiles("Ludonomia Library");
+      if (picked.length === 0) return;
+      loaded = await loadLibraryFiles(paths, picked);
+    } catch (err) {
+      console.error("Failed to read library files", err);
+      alert("Failed to read the picked library files.");
+      return;
     }
+    if (loaded.length === 0) alert(`None of the picked files match the missing libraries:\n${paths.join('\n')}`);
+  };
 
-    const delimiter = config.nameSets[activeNameSet]?.delimiter || "_";
-    return perms.map(p => p.join(delimiter));
-  }, [templateOrder, config.elements, config.nameSets, activeNameSet]);
+  const handleAddLibrary = async () => {
+    let picked: OpenedFile[];
+    try {
+      picked = await pickJsonFiles("Ludonomia Library");
+    } catch (err) {
+      console.error("Failed to pick library files", err);
+      alert("Failed to open the library files.");
+      return;
+    }
+    if (picked.length === 0) return;
+    // The browser can't tell where a file is, so a single pick can be given its relative path
+    const paths = picked
+      .map(({ file }) => picked.length === 1
+        ? prompt(`Path of "${file.name}" relative to the project file:`, file.name)?.trim() || ""
+        : file.name)
+      .filter(path => path && !(config.libraries || []).includes(path));
+    if (paths.length === 0) return;
+    recordEdit(paths.length === 1 ? `Add library "${paths[0]}"` : `Add ${paths.length} libraries`);
+    setConfig(prev => ({ ...prev, libraries: [...(prev.libraries || []), ...paths] }));
+    try {
+      await loadLibraryFiles(paths, picked);
+    } catch (err) {
+      // The reference stays, and shows as missing until the file is located
+      console.error("Failed to read library files", err);
+      alert("The library was added but its file could not be read. Use Locate Missing in the Libraries panel to pick it again.");
+    }
+  };
+
+  const handleCreateLibrary = async () => {
+    const name = prompt("Name of the new library:", "Shared Elements")?.trim();
+    if (!name) return;
+    let file: LibraryFile;
+    try {
+      const target = await pickSaveTarget(`${name.replace(/[\\/:*?"<>|]+/g, '_')}.json`, 'Library');
+      if (!target) return;
+      file = { path: target.fileName, library: { library_name: name, elements: {} }, handle: target.handle };
+      await writeLibraryFile(file, file.library!);
+    } catch (err) {
+      console.error("Failed to write library file", err);
+      alert("Failed to create the library.");
+      return;
+    }
+    recordEdit(`Add library "${file.path}"`);
+    setConfig(prev => ({ ...prev, libraries: [...(prev.libraries || []), file.path] }));
+    setLibraryFiles(prev => [...prev.filter(f => f.path !== file.path), file]);
+  };
+
+  const handleRemoveLibrary = (path: string) => {
+    if (!confirm(`Stop using the library "${path}"? Its elements will no longer be available to this project.`)) return;
+    recordEdit(`Remove library "${path}"`);
+    setConfig(prev => ({ ...prev, libraries: (prev.libraries || []).filter(p => p !== path) }));
+  };
+
+  // Move the project's own terms for an element into a library file
+  const handlePromoteElement = async (element: string) => {
+    const terms = config.elements[element]?.terms || [];
+    if (terms.length === 0) return;
+    const targets = (config.libraries || [])
+      .map(path => libraryFiles.find(f => f.path === path))
+      .filter((f): f is LibraryFile => !!f?.library);
+    if (targets.length === 0) {
+      alert("Add or create a library first.");
+      setIsLibrariesOpen(true);
+      return;
+    }
+
+    // Terms of a library element go back to that library
+    const origin = libraryOf(element);
+    let target = targets.find(f => f.path === origin) ?? targets[0];
+    if (origin === undefined && targets.length > 1) {
+      const choice = prompt(
+        `Promote ${element} to which library?\n${targets.map((f, i) => `${i + 1}. ${libraryName(f)}`).join('\n')}`,
+        "1"
+      );
+      if (!choice) return;
+      target = targets[parseInt(choice, 10) - 1];
+      if (!target) return;
+    }
+    if (!confirm(`Move ${terms.length} ${element} term(s) into "${libraryName(target)}"? Every project using that library will see them.`)) return;
+
+    const library = promoteTerms(target.library!, element, terms);
+    try {
+      await writeLibraryFile(target, library);
+    } catch (err) {
+      console.error("Failed to write library file", err);
+      alert("Failed to update the library.");
+      return;
+    }
+    setLibraryFiles(prev => prev.map(f => f.path === target.path ? { ...f, library } : f));
+    applyProjectEdit(`Promote ${element} to "${libraryName(target)}"`, prev => {
+      const rest = { ...prev.elements };
+      delete rest[element];
+      return { ...prev, elements: rest };
+    });
+  };
+
+  const templateKeys = useMemo(() => slotKeys(templateOrder), [templateOrder]);
+
+  // Selections only change the names through pinned slots that follow them, so picking
+  // terms for any other slot keeps the same space (and skips rescanning it)
+  const pinnedSelectionsKey = JSON.stringify(Object.fromEntries(
+    templateKeys.filter((_, i) => toSlot(templateOrder[i]).mode === 'pinned').map(key => [key, selections[key]])
+  ));
+  const pinnedSelections = useMemo<Record<string, string>>(() => JSON.parse(pinnedSelectionsKey), [pinnedSelectionsKey]);
+
+  // Permutations for the current template, generated on demand rather than up front
+  const permutationSpace = useMemo(
+    () => nameSetSpace(resolvedProject.config, activeNameSet, { template: templateOrder, selections: pinnedSelections }),
+    [resolvedProject, activeNameSet, templateOrder, pinnedSelections]
+  );
+
+  // How many combinations each compatibility rule of the active NameSet removes
+  const ruleRemovals = useMemo(() => countRuleRemovals(permutationSpace), [permutationSpace]);
+
+  // --- Filename Lint ---
+  const lint = useMemo(() => lintSettings(config.lint), [config.lint]);
+  const nameLinter = useMemo(() => createNameLinter(lint), [lint]);
+  // Scanned in the background; the last report stays up while the next one runs
+  const [lintScan, setLintScan] = useState<{ space: PermutationSpace; lint: LintSettings; report: LintReport } | null>(null);
+  const isLintCurrent = lintScan?.space === permutationSpace && lintScan.lint === lint;
+  const lintReport = lintScan?.report ?? EMPTY_LINT_REPORT;
+  // The report only covers the first names; exports check everything they write (see checkExportLint)
+  const isExportBlocked = lint.blockExport && isLintCurrent && lintReport.errors > 0;
+  const [isLintOpen, setIsLintOpen] = useState<boolean>(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    lintSpace(permutationSpace, lint, { signal: controller.signal })
+      .then(report => setLintScan({ space: permutationSpace, lint, report }))
+      .catch(err => {
+        if (!controller.signal.aborted) console.error("Filename lint failed", err);
+      });
+    return () => controller.abort();
+  }, [permutationSpace, lint]);
+
+  const handleLintChange = (settings: LintSettings | undefined) => {
+    recordEdit(settings ? "Edit lint settings" : "Reset lint settings", settings ? 'lint' : undefined);
+    setConfig(prev => ({ ...prev, lint: settings }));
+  };
+
+  const renderNameRow = (index: number) => {
+    const name = nameAt(permutationSpace, index);
+    const issues = nameIssues(isLintCurrent ? lintReport : null, lint, nameLinter, permutationSpace, index);
+    if (issues.length === 0) return name;
+    const level = issues.some(issue => issue.severity === 'error') ? 'error' : 'warning';
+    return <span className={`lint-name ${level}`} title={issues.map(issue => issue.message).join('\n')}>{name}</span>;
+  };
+
+  // --- Asset Status ---
+  // Names of assets that already exist, pasted or imported, so the table can show
+  // which generated names are done, in progress or still missing.
+  const [assetList, setAssetList] = useState<string>("");
+  const [isAssetListOpen, setIsAssetListOpen] = useState<boolean>(false);
+  const assetStatuses = useMemo(() => assetList.trim() ? parseAssetList(assetList) : null, [assetList]);
+
+  // --- Coverage ---
+  const [isCoverageOpen, setIsCoverageOpen] = useState<boolean>(false);
+
+  const handleSaveCoverageSnapshot = (nameSetId: string, snapshot: CoverageSnapshot) => {
+    recordEdit(`Save coverage snapshot of "${nameSetId}"`);
+    setConfig(prev => addCoverageSnapshot(prev, nameSetId, snapshot));
+  };
+
+  const handleRemoveCoverageSnapshot = (nameSetId: string, index: number) => {
+    recordEdit(`Delete coverage snapshot of "${nameSetId}"`);
+    setConfig(prev => removeCoverageSnapshot(prev, nameSetId, index));
+  };
+  const [isRulesOpen, setIsRulesOpen] = useState<boolean>(false);
+  const [isValidateOpen, setIsValidateOpen] = useState<boolean>(false);
+  const [isRenameOpen, setIsRenameOpen] = useState<boolean>(false);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+  const [isImportOpen, setIsImportOpen] = useState<boolean>(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  // Last export target and tool exporter settings, so the dialog reopens where it was left
+  const [exportTarget, setExportTarget] = useState<string>('list');
+  const [exporterValues, setExporterValues] = useState<Record<string, ExporterValues>>({});
+  // Names picked in the table, exported instead of the whole NameSet
+  const [exportRows, setExportRows] = useState<number[] | null>(null);
+
+  const handleOpenExport = (rows: number[] | null) => {
+    setExportRows(rows);
+    setIsExportOpen(true);
+  };
+  const activeRules = config.nameSets[activeNameSet]?.rules || [];
+
+  // Variation number used by the composer when the NameSet has variations
+  const [composedVariation, setComposedVariation] = useState<number | null>(null);
+
+  // The single name built from the current per-element selections
+  const composedName = useMemo(() => {
+    const nameSet = config.nameSets[activeNameSet];
+    if (!nameSet) return "";
+    // Fall back to the first variation if the picked one is no longer in range
+    const variations = nameSet.variations;
+    const variation = composedVariation !== null && variations
+      && composedVariation >= variations.start && composedVariation < variations.start + variations.count
+      ? composedVariation
+      : undefined;
+    return composeName({ ...nameSet, template: templateOrder }, selections, variation);
+  }, [config.nameSets, activeNameSet, templateOrder, selections, composedVariation]);
+
+  // Names copied from the composer this session, most recent first
+  const [composedHistory, setComposedHistory] = useState<string[]>([]);
+
+  const handleCopyComposedName = async (name: string) => {
+    await navigator.clipboard.writeText(name);
+    setComposedHistory(prev => [name, ...prev.filter(n => n !== name)].slice(0, MAX_COMPOSED_HISTORY));
+  };
+
+  // Progress of a running Copy/Export over the full list of generated names
+  const [streamJob, setStreamJob] = useState<{ label: string; done: number; total: number } | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+
+  // Run a cancellable job with progress. Resolves to null if the user cancels.
+  const runStreamJob = async <T,>(
+    label: string,
+    total: number,
+    run: (options: Pick<StreamOptions, 'signal' | 'onProgress'>) => Promise<T>
+  ): Promise<T | null> => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setStreamJob({ label, done: 0, total });
+    try {
+      return await run({
+        signal: controller.signal,
+        onProgress: ({ done, total }) => setStreamJob({ label, done, total })
+      });
+    } catch (err) {
+      if (controller.signal.aborted) return null;
+      throw err;
+    } finally {
+      streamAbortRef.current = null;
+      setStreamJob(null);
+    }
+  };
+
+  const streamGeneratedLines = (
+    label: string,
+    lines: Iterable<string>,
+    lineEnding = '\n',
+    total = permutationSpace.total
+  ): Promise<string[] | null> =>
+    runStreamJob(label, total, options => streamLines(lines, total, { lineEnding, ...options }));
+
+  // With export blocking on, lint every name about to be exported, not just the ones
+  // the background scan covered. Resolves to false if the export should stop.
+  const checkExportLint = async (rows: ExportRows): Promise<boolean> => {
+    if (!lint.blockExport) return true;
+    const report = await runStreamJob("Checking", rowCount(permutationSpace, rows), options =>
+      lintSpace(permutationSpace, lint, { rows, ...options }));
+    if (!report) return false;
+    if (report.errors > 0) {
+      alert(`${report.errors.toLocaleString()} name(s) fail the filename lint, so nothing was exported. Fix them or relax the lint settings.`);
+      return false;
+    }
+    return true;
+  };
+
+  // Copies every name, or only the names at `rows`
+  const handleCopyList = async (btn: HTMLButtonElement, rows?: number[]) => {
+    const chunks = rows
+      ? await streamGeneratedLines("Copying", rows.map(i => nameAt(permutationSpace, i)), '\n', rows.length)
+      : await streamGeneratedLines("Copying", iterateNames(permutationSpace));
+    if (!chunks) return;
+    let feedback = "Copied!";
+    try {
+      await navigator.clipboard.writeText(chunks.join(''));
+    } catch (err) {
+      console.error("Failed to copy names", err);
+      feedback = "Copy failed";
+    }
+    // Simple feedback
+    const originalText = btn.innerHTML;
+    btn.innerHTML = `<span style="font-size: 0.75rem;">${feedback}</span>`;
+    setTimeout(() => btn.innerHTML = originalText, 1500);
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    if (isExportBlocked) return;
+    setExportOptions(options);
+    setExportTarget('list');
+    setIsExportOpen(false);
+    if (!await checkExportLint(exportRows ?? permutationSpace.total)) return;
+    const lines = exportLines(permutationSpace, activeNameSet, activeDef, options, exportRows ?? undefined);
+    const chunks = await streamGeneratedLines("Exporting", lines, options.lineEnding, exportRows?.length);
+    const { extension, mimeType } = EXPORT_FILE_TYPES[options.format];
+    if (chunks) downloadFile(chunks, `${activeNameSet}_names.${extension}`, mimeType);
+  };
+
+  const handleExportWith = async (exporter: Exporter, values: ExporterValues) => {
+    if (isExportBlocked) return;
+    setExportTarget(exporter.id);
+    setExporterValues(prev => ({ ...prev, [exporter.id]: values }));
+    setIsExportOpen(false);
+    if (!await checkExportLint(exportRows ?? permutationSpace.total)) return;
+    const file = exporter.export({ space: permutationSpace, nameSetId: activeNameSet, nameSet: activeDef, values, rows: exportRows ?? undefined });
+    const chunks = await streamGeneratedLines("Exporting", file.lines, file.lineEnding, exportRows?.length);
+    if (chunks) downloadFile(chunks, file.fileName, file.mimeType);
+  };
 
   return (
     <div className="app-container">
       <header className="top-bar glass-panel">
         <div className="top-bar-left">
           <h1>Ludonomia</h1>
-          <label className="load-project-btn" title="Load a .json project file">
-            <Upload size={16} /> Load Project
-            <input
-              type="file"
-              accept=".json"
-              onChange={handleLoadProject}
-              style={{ display: 'none' }}
-            />
-          </label>
+          <div className="project-actions">
+            <label className="load-project-btn" title="Load a .json project file">
+              <Upload size={16} /> Load Project
+              <input
+                type="file"
+                accept=".json"
+                onClick={e => {
+                  if (!confirmDiscardChanges()) e.preventDefault();
+                }}
+                onChange={handleLoadProject}
+                style={{ display: 'none' }}
+              />
+            </label>
+            <button className="load-project-btn" onClick={handleSaveProject} title="Save the project">
+              <Save size={16} /> Save
+            </button>
+            <button className="load-project-btn" onClick={handleSaveProjectAs} title="Save the project to a new file">
+              Save As...
+            </button>
+            <button className="icon-btn" onClick={() => handleUndo()} disabled={history.past.length === 0} title="Undo (Ctrl+Z)">
+              <Undo2 size={16} />
+            </button>
+            <button className="icon-btn" onClick={() => handleRedo()} disabled={history.future.length === 0} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 size={16} />
+            </button>
+            <button className="icon-btn" onClick={() => setIsHistoryOpen(true)} title="Edit history">
+              <HistoryIcon size={16} />
+            </button>
+            <button className="icon-btn" onClick={handleShowStartScreen} title="Start screen and recent projects">
+              <House size={16} />
+            </button>
+          </div>
         </div>
 
         <div className="top-bar-center">
@@ -443,6 +1406,24 @@ function App() {
               </select>
             </div>
           </div>
+          <div className="nameset-config">
+            <label className="config-label">Delimiter</label>
+            <div className="inheritable-field">
+              <input
+                type="text"
+                className={`term-input config-input delimiter-input ${activeParent !== undefined && activeDef?.overrides?.delimiter === undefined ? 'inherited' : ''}`}
+                value={activeDef?.delimiter ?? ""}
+                onChange={e => handleUpdateNameSetMeta('delimiter', e.target.value)}
+                placeholder="None"
+                title={activeParent !== undefined && activeDef?.overrides?.delimiter === undefined ? `Inherited from ${activeParent}` : undefined}
+              />
+              {activeDef?.overrides?.delimiter !== undefined && (
+                <button className="icon-btn" onClick={() => handleResetOverride('delimiter')} title={`Use ${activeParent}'s delimiter`}>
+                  <RotateCcw size={12} />
+                </button>
+              )}
+            </div>
+          </div>
           <div className="nameset-config">
             <label className="config-label">Group</label>
             <input
@@ -454,23 +1435,39 @@ function App() {
             />
           </div>
           <div className="nameset-config">
-            <label className="config-label">Tags</label>
-            <input
-              type="text"
-              className="term-input config-input"
-              value={(config.nameSets[activeNameSet]?.tags || []).join(', ')}
-              onChange={e => {
-                const tagsArray = e.target.value.split(',').map(t => t.trim()).filter(Boolean);
-                handleUpdateNameSetMeta('tags', tagsArray);
-              }}
-              placeholder="E.g. ui, core"
+            <label className="config-label">Variations</label>
+            <VariationEditor
+              variations={config.nameSets[activeNameSet]?.variations}
+              onChange={variations => handleUpdateNameSetMeta('variations', variations)}
             />
           </div>
+          <div className="nameset-config">
+            <label className="config-label">Tags</label>
+            <div className="inheritable-field">
+              <input
+                type="text"
+                className={`term-input config-input ${activeParent !== undefined && activeDef?.overrides?.tags === undefined ? 'inherited' : ''}`}
+                value={(activeDef?.tags || []).join(', ')}
+                onChange={e => {
+                  const tagsArray = e.target.value.split(',').map(t => t.trim()).filter(Boolean);
+                  handleUpdateNameSetMeta('tags', tagsArray);
+                }}
+                placeholder="E.g. ui, core"
+                title={activeParent !== undefined && activeDef?.overrides?.tags === undefined ? `Inherited from ${activeParent}` : undefined}
+              />
+              {activeDef?.overrides?.tags !== undefined && (
+                <button className="icon-btn" onClick={() => handleResetOverride('tags')} title={`Use ${activeParent}'s tags`}>
+                  <RotateCcw size={12} />
+                </button>
+              )}
+            </div>
+          </div>
         </div>
 
         <div className="top-bar-right">
-          <div className="project-name">
+          <div className="project-name" title={saveTarget?.fileName}>
             {config.project_name}
+            {isDirty && <span className="dirty-marker" title="Modified since last save"> •</span>}
           </div>
         </div>
       </header>
@@ -528,9 +1525,27 @@ function App() {
                     <div className="list-section browser-section">
                       <div className="section-header">
                         <label className="section-title">NameSets</label>
-                        <button className="icon-btn" onClick={() => setIsCreatingNameSet(!isCreatingNameSet)} title="Create New NameSet">
-                          <PlusCircle size={16} />
-                        </button>
+                        <div className="item-header-actions">
+                          {activeNameSet && (
+                            <>
+                              <button className="icon-btn" onClick={handleRenameNameSet} title={`Rename "${activeNameSet}"`}>
+                                <Pencil size={16} />
+                              </button>
+                              <button className="icon-btn" onClick={handleDuplicateNameSet} title={`Duplicate "${activeNameSet}"`}>
+                                <CopyPlus size={16} />
+                              </button>
+                              <button className="icon-btn" onClick={handleCreateVariant} title={`Create a variant of "${activeNameSet}" that follows its changes`}>
+                                <GitBranch size={16} />
+                              </button>
+                              <button className="icon-btn" onClick={handleDeleteNameSet} title={`Delete "${activeNameSet}"`}>
+                                <Trash2 size={16} />
+                              </button>
+                            </>
+                          )}
+                          <button className="icon-btn" onClick={() => setIsCreatingNameSet(!isCreatingNameSet)} title="Create New NameSet">
+                            <PlusCircle size={16} />
+                          </button>
+                        </div>
                       </div>
 
                       {isCreatingNameSet && (
@@ -558,24 +1573,41 @@ function App() {
                           <span className="col-tags">Tags</span>
                         </div>
                         <div className="nameset-table-body">
-                          {Object.keys(config.nameSets || {})
+                          {Object.keys(projectToSave.nameSets || {})
                             .filter(ns => {
-                              const nsData = config.nameSets[ns];
+                              const nsData = projectToSave.nameSets[ns];
                               const matchesGroup = filterGroup === "All" || nsData.group === filterGroup;
                               const matchesTag = !filterTag.trim() || (nsData.tags && nsData.tags.some(t => t.toLowerCase().includes(filterTag.toLowerCase())));
                               return matchesGroup && matchesTag;
                             })
                             .map(ns => {
-                              const nsData = config.nameSets[ns];
+                              const nsData = projectToSave.nameSets[ns];
+                              const parent = nsData.extends;
+                              const changes = slotOverrideCount(nsData.overrides);
                               return (
                                 <button
                                   key={ns}
                                   className={`list-item nameset-row ${activeNameSet === ns ? 'active' : ''}`}
                                   onClick={() => handleNameSetChange(ns)}
                                 >
-                                  <span className="col-name">{ns}</span>
+                                  <span className="col-name">
+                                    {ns}
+                                    {parent !== undefined && (
+                                      <span
+                                        className="nameset-parent"
+                                        title={`Variant of ${parent}: ${changes > 0 ? `${changes} slot change(s)` : 'same template'}, ${nsData.overrides?.delimiter === undefined ? 'inherited' : 'own'} delimiter`}
+                                      >
+                                        <GitBranch size={10} /> {parent}
+                                      </span>
+                                    )}
+                                  </span>
                                   <span className="col-group">{nsData.group || ''}</span>
-                                  <span className="col-tags">{(nsData.tags || []).join(', ')}</span>
+                                  <span
+                                    className={`col-tags ${parent !== undefined && nsData.overrides?.tags === undefined ? 'inherited' : ''}`}
+                                    title={parent !== undefined && nsData.overrides?.tags === undefined ? `Inherited from ${parent}` : undefined}
+                                  >
+                                    {(nsData.tags || []).join(', ')}
+                                  </span>
                                 </button>
                               );
                             })}
@@ -590,9 +1622,21 @@ function App() {
                     <div className="list-section browser-section">
                       <div className="section-header">
                         <label className="section-title">All Elements</label>
-                        <button className="icon-btn" onClick={() => setIsCreatingElement(!isCreatingElement)} title="Create New Element">
-                          <PlusCircle size={16} />
-                        </button>
+                        <div className="item-header-actions">
+                          <button
+                            className={`icon-btn ${libraryIssues.length > 0 ? 'warning' : ''}`}
+                            onClick={() => setIsLibrariesOpen(true)}
+                            title={libraryIssues.length > 0 ? libraryIssues.map(issue => issue.message).join('\n') : "Shared Element Libraries"}
+                          >
+                            <Library size={16} />
+                          </button>
+                          <button className="icon-btn" onClick={() => setIsImportOpen(true)} title="Import Terms from CSV, a list or filenames">
+                            <FileUp size={16} />
+                          </button>
+                          <button className="icon-btn" onClick={() => setIsCreatingElement(!isCreatingElement)} title="Create New Element">
+                            <PlusCircle size={16} />
+                          </button>
+                        </div>
                       </div>
 
                       {isCreatingElement && (
@@ -614,17 +1658,38 @@ function App() {
                       )}
 
                       <div className="item-list full-height">
-                        {Object.keys(config.elements || {}).map(wc => (
+                        {Object.keys(elements).map(wc => (
                           <div key={wc} className="element-card">
-                            <div className="element-card-header">{wc}</div>
-                            <div className="element-terms">
-                              {config.elements[wc].terms.map(term => (
-                                <span key={term} className="term-badge">
-                                  {term}
-                                  <button onClick={() => handleRemoveElementTerm(wc, term)}><X size={12} /></button>
-                                </span>
-                              ))}
+                            <div className="element-card-header">
+                              <span>
+                                {wc}
+                                {libraryOf(wc) !== undefined && (
+                                  <span className="library-tag" title={libraryOf(wc)}>
+                                    {libraryName(libraryFiles.find(f => f.path === libraryOf(wc))!)}
+                                  </span>
+                                )}
+                              </span>
+                              <div className="item-header-actions">
+                                {(config.libraries?.length ?? 0) > 0 && (config.elements[wc]?.terms.length ?? 0) > 0 && (
+                                  <button className="icon-btn" onClick={() => handlePromoteElement(wc)} title="Promote this project's terms to a library">
+                                    <BookUp size={14} />
+                                  </button>
+                                )}
+                                <button className="icon-btn" onClick={() => handleRenameElement(wc)} title="Rename Element">
+                                  <Pencil size={14} />
+                                </button>
+                                <button className="icon-btn" onClick={() => handleDeleteElement(wc)} title="Delete Element">
+                                  <Trash2 size={14} />
+                                </button>
+                              </div>
                             </div>
+                            <TermList
+                              terms={elements[wc].terms}
+                              isLocked={token => isLibraryTerm(resolvedProject.origins, wc, token)}
+                              onMove={(from, to) => handleMoveTerm(wc, from, to)}
+                              onEdit={token => setEditingTerm({ element: wc, token })}
+                              onRemove={term => handleRemoveElementTerm(wc, term)}
+                            />
                             <div className="add-term-container mini">
                               <input
                                 type="text"
@@ -656,6 +1721,15 @@ function App() {
           <div className="glass-panel" style={{ borderRadius: 'var(--radius-lg)', display: 'flex', flexDirection: 'column', flex: 1, minHeight: 0, overflow: 'hidden' }}>
             <div className="preview-bar-header" style={{ padding: '1.5rem 1.5rem 0 1.5rem' }}>
               <span className="template-label">NameSet Template</span>
+              {activeParent !== undefined && (
+                <span className="variant-info">
+                  <GitBranch size={12} /> Variant of {activeParent}
+                  {slotOverrideCount(activeDef?.overrides) > 0 && ` · ${slotOverrideCount(activeDef?.overrides)} slot change(s)`}
+                  <button className="icon-btn" onClick={handleDetachVariant} title={`Stop following ${activeParent}`}>
+                    <Unlink size={12} />
+                  </button>
+                </span>
+              )}
             </div>
 
             <DndContext
@@ -663,73 +1737,294 @@ function App() {
               collisionDetection={closestCenter}
               onDragEnd={handleDragEnd}
             >
+              <ElementPalette elements={Object.keys(elements)} onAdd={element => handleAddSlot(element)} />
               <div className="dnd-container">
                 <SortableContext
-                  items={templateOrder}
+                  items={templateKeys}
                   strategy={horizontalListSortingStrategy}
                 >
-                  {templateOrder.map((wcName) => (
-                    <SortableElementItem
-                      key={wcName}
-                      id={wcName}
-                      element={wcName}
-                      terms={config.elements[wcName]?.terms || []}
-                      selectedValue={selections[wcName]}
-                      onChange={(val) => handleSelectionChange(wcName, val)}
-                      onAddTerm={(val) => handleAddTerm(wcName, val)}
-                    />
-                  ))}
+                  {templateOrder.map((entry, index) => {
+                    const wcName = slotElement(entry);
+                    const key = templateKeys[index];
+                    const slot = toSlot(entry);
+                    return (
+                      <SortableElementItem
+                        key={key}
+                        id={key}
+                        element={wcName}
+                        terms={elements[wcName]?.terms || []}
+                        selectedValue={selections[key] ?? ""}
+                        format={slot.format || {}}
+                        mode={slot.mode || 'all'}
+                        subsetTerms={slot.terms || []}
+                        onChange={(val) => handleSelectionChange(key, val)}
+                        onAddTerm={(val) => handleAddTerm(wcName, val, key)}
+                        onFormatChange={(format) => handleSlotFormatChange(index, format)}
+                        onModeChange={(mode) => handleSlotModeChange(index, mode)}
+                        onSubsetChange={(terms) => handleSlotSubsetChange(index, terms)}
+                        onRemove={() => handleRemoveSlot(index)}
+                        origin={activeOrigins?.[index]}
+                      />
+                    );
+                  })}
                 </SortableContext>
+                <TemplateDropZone />
               </div>
             </DndContext>
 
+            <ComposedNamePanel
+              name={composedName}
+              variations={config.nameSets[activeNameSet]?.variations}
+              variation={composedVariation}
+              onVariationChange={setComposedVariation}
+              history={composedHistory}
+              onCopy={handleCopyComposedName}
+            />
+
             <div className="permutations-container">
               <div className="permutations-header">
-                <span className="template-label">Generated Names ({permutations.length}{permutations.length >= 10000 ? '+' : ''})</span>
+                <span className="template-label">
+                  Generated Names ({permutationSpace.total.toLocaleString()})
+                  {permutationSpace.total < permutationSpace.rawTotal && (
+                    <span className="rules-removed-note">
+                      {' '}· {(permutationSpace.rawTotal - permutationSpace.total).toLocaleString()} removed by rules
+                    </span>
+                  )}
+                </span>
                 <div className="permutations-actions">
+                  <button
+                    className={`action-btn ${activeRules.length > 0 ? 'active' : ''}`}
+                    onClick={() => setIsRulesOpen(true)}
+                    title="Rules that exclude invalid combinations"
+                  >
+                    <ListFilter size={14} /> Rules ({activeRules.length})
+                  </button>
                   <button
                     className="action-btn"
-                    onClick={() => {
-                      navigator.clipboard.writeText(permutations.join('\n'));
-                      // Simple feedback
-                      const btn = document.activeElement as HTMLButtonElement;
-                      if (btn) {
-                        const originalText = btn.innerHTML;
-                        btn.innerHTML = '<span style="font-size: 0.75rem;">Copied!</span>';
-                        setTimeout(() => btn.innerHTML = originalText, 1500);
-                      }
-                    }}
+                    onClick={() => setIsValidateOpen(true)}
+                    title="Check existing filenames against the NameSets"
+                  >
+                    <FileCheck size={14} /> Validate Names
+                  </button>
+                  <button
+                    className="action-btn"
+                    onClick={() => setIsRenameOpen(true)}
+                    title="Rename files in a folder using this NameSet"
+                  >
+                    <FilePen size={14} /> Batch Rename
+                  </button>
+                  <button
+                    className={`action-btn ${assetStatuses ? 'active' : ''}`}
+                    onClick={() => setIsAssetListOpen(true)}
+                    title="Mark generated names done, in progress or missing from a list of existing assets"
+                  >
+                    <ClipboardCheck size={14} /> Status
+                  </button>
+                  <button
+                    className="action-btn"
+                    onClick={() => setIsCoverageOpen(true)}
+                    title="Compare delivered files against the names each NameSet expects"
+                  >
+                    <PieChart size={14} /> Coverage
+                  </button>
+                  <button
+                    className={`action-btn lint-btn ${lintReport.errors > 0 ? 'error' : lintReport.warnings > 0 ? 'warning' : ''}`}
+                    onClick={() => setIsLintOpen(true)}
+                    title="Check generated names for characters, lengths and names that aren't safe in filenames"
+                  >
+                    {lintReport.errors + lintReport.warnings > 0 ? <ShieldAlert size={14} /> : <ShieldCheck size={14} />}
+                    {' '}Lint{lintReport.errors + lintReport.warnings > 0 && ` (${(lintReport.errors + lintReport.warnings).toLocaleString()})`}
+                  </button>
+                  {streamJob && (
+                    <div className="stream-progress">
+                      <span>{streamJob.label} {streamJob.done.toLocaleString()} / {streamJob.total.toLocaleString()}</span>
+                      <progress value={streamJob.done} max={Math.max(streamJob.total, 1)} />
+                      <button className="action-btn" onClick={() => streamAbortRef.current?.abort()}>
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                  <button
+                    className="action-btn"
+                    disabled={!!streamJob}
+                    onClick={e => handleCopyList(e.currentTarget)}
                     title="Copy to Clipboard"
                   >
                     <Copy size={14} /> Copy List
                   </button>
                   <button
                     className="action-btn"
-                    onClick={() => {
-                      const csvContent = "data:text/csv;charset=utf-8," + permutations.join('\n');
-                      const encodedUri = encodeURI(csvContent);
-                      const link = document.createElement("a");
-                      link.setAttribute("href", encodedUri);
-                      link.setAttribute("download", `${activeNameSet}_names.csv`);
-                      document.body.appendChild(link);
-                      link.click();
-                      document.body.removeChild(link);
-                    }}
-                    title="Export as CSV"
+                    disabled={!!streamJob || isExportBlocked}
+                    onClick={() => handleOpenExport(null)}
+                    title={isExportBlocked
+                      ? `${lintReport.errors.toLocaleString()} name(s) fail the filename lint; fix them or relax the lint settings to export`
+                      : "Export as CSV, TSV or JSON, or for Reaper, Wwise and FMOD"}
                   >
-                    <Download size={14} /> Export CSV
+                    <Download size={14} /> Export...
                   </button>
                 </div>
               </div>
-              <textarea
-                className="permutations-list-textarea"
-                readOnly
-                value={permutations.join('\n')}
+              <NameTable
+                space={permutationSpace}
+                keys={templateKeys}
+                statuses={assetStatuses}
+                renderName={renderNameRow}
+                disabled={!!streamJob}
+                exportBlockedReason={isExportBlocked ? "Some names fail the filename lint" : null}
+                onCopy={(rows, button) => handleCopyList(button, rows)}
+                onExport={handleOpenExport}
               />
             </div>
           </div>
         </main>
       </div>
+
+      {editingTerm && findTerm(config.elements[editingTerm.element], editingTerm.token) && (
+        <TermEditor
+          element={editingTerm.element}
+          term={findTerm(config.elements[editingTerm.element], editingTerm.token)!}
+          takenTokens={termTokens(elements[editingTerm.element])}
+          onSave={term => handleUpdateTerm(editingTerm.element, editingTerm.token, term)}
+          onClose={() => setEditingTerm(null)}
+        />
+      )}
+
+      {isLibrariesOpen && (
+        <Modal title="Element Libraries" onClose={() => setIsLibrariesOpen(false)} wide>
+          <LibrariesPanel
+            paths={config.libraries || []}
+            loaded={libraryFiles}
+            issues={libraryIssues}
+            onLocate={handleLocateLibraries}
+            onAdd={handleAddLibrary}
+            onCreate={handleCreateLibrary}
+            onRemove={handleRemoveLibrary}
+          />
+        </Modal>
+      )}
+
+      {isAssetListOpen && (
+        <AssetListDialog
+          initialText={assetList}
+          onApply={text => {
+            setAssetList(text);
+            setIsAssetListOpen(false);
+          }}
+          onClose={() => setIsAssetListOpen(false)}
+        />
+      )}
+
+      {isCoverageOpen && (
+        <Modal title="Asset Coverage" onClose={() => setIsCoverageOpen(false)} wide>
+          <CoveragePanel
+            config={resolvedProject.config}
+            defaultNameSet={activeNameSet}
+            onSaveSnapshot={handleSaveCoverageSnapshot}
+            onRemoveSnapshot={handleRemoveCoverageSnapshot}
+          />
+        </Modal>
+      )}
+
+      {isLintOpen && (
+        <Modal title="Filename Lint" onClose={() => setIsLintOpen(false)} wide>
+          <LintPanel
+            settings={lint}
+            report={lintReport}
+            checking={!isLintCurrent}
+            total={permutationSpace.total}
+            onChange={handleLintChange}
+            onReset={() => handleLintChange(undefined)}
+          />
+        </Modal>
+      )}
+
+      {isHistoryOpen && (
+        <Modal title="History" onClose={() => setIsHistoryOpen(false)}>
+          <HistoryPanel history={history} onUndo={handleUndo} onRedo={handleRedo} />
+        </Modal>
+      )}
+
+      {isRulesOpen && (
+        <Modal
+          title={`Compatibility Rules: ${activeNameSet}`}
+          onClose={() => setIsRulesOpen(false)}
+          wide
+        >
+          <RuleEditor
+            rules={activeRules}
+            elements={elements}
+            templateElements={templateOrder.map(slotElement)}
+            removals={ruleRemovals}
+            onChange={handleUpdateRules}
+          />
+        </Modal>
+      )}
+
+      {isValidateOpen && (
+        <Modal title="Validate Names" onClose={() => setIsValidateOpen(false)} wide>
+          <ValidateNamesPanel config={resolvedProject.config} defaultNameSet={activeNameSet} />
+        </Modal>
+      )}
+
+      {isRenameOpen && (
+        <Modal title={`Batch Rename with ${activeNameSet}`} onClose={() => setIsRenameOpen(false)} wide>
+          <BatchRenamePanel config={resolvedProject.config} nameSetId={activeNameSet} />
+        </Modal>
+      )}
+
+      {isExportOpen && (
+        <ExportDialog
+          space={permutationSpace}
+          nameSetId={activeNameSet}
+          nameSet={activeDef}
+          initialOptions={exportOptions}
+          initialTarget={exportTarget}
+          initialToolValues={exporterValues}
+          rows={exportRows ?? undefined}
+          onExport={handleExport}
+          onExportWith={handleExportWith}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {isImportOpen && (
+        <ImportDialog
+          elements={elements}
+          delimiter={config.nameSets[activeNameSet]?.delimiter ?? DEFAULT_DELIMITER}
+          onImport={handleImportTerms}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {start === 'loading' && <div className="start-screen" />}
+      {start && start !== 'loading' && (
+        <StartScreen
+          session={start.session}
+          recent={start.recent}
+          onRestore={handleRestoreSession}
+          onOpenRecent={handleOpenRecent}
+          onForgetRecent={handleForgetRecent}
+          onBeforeOpenFile={e => {
+            if (!confirmLeaveStart()) e.preventDefault();
+          }}
+          onOpenFile={handleLoadProject}
+          onStartDemo={handleStartDemo}
+          onClose={start.fromEditor ? () => setStart(null) : undefined}
+        />
+      )}
+
+      {loadIssues && (
+        <Modal
+          title={`Could not load ${loadIssues.fileName}`}
+          onClose={() => setLoadIssues(null)}
+          footer={<button className="action-btn" onClick={() => setLoadIssues(null)}>Close</button>}
+        >
+          <p className="modal-text">
+            The project file has {loadIssues.issues.length} problem{loadIssues.issues.length === 1 ? '' : 's'}:
+          </p>
+          <IssueList issues={loadIssues.issues} />
+        </Modal>
+      )}
     </div >
   );
 }
@@ -0,0 +1,20 @@
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import { open } from '@tauri-apps/plugin-dialog';
+
+// --- Delivered Asset Scan ---
+// Lists the files in a delivery folder through the desktop app. In the browser the
+// coverage report works from a pasted list or a picked folder instead.
+
+export function canScanFolders(): boolean {
+  return isTauri();
+}
+
+export async function pickDeliveryFolder(): Promise<string | null> {
+  const folder = await open({ directory: true, title: "Choose the folder of delivered assets" });
+  return typeof folder === 'string' ? folder : null;
+}
+
+// Every file name in the folder and its subfolders.
+export function scanFolder(folder: string): Promise<string[]> {
+  return invoke<string[]>('scan_folder', { folder });
+}
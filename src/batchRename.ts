@@ -0,0 +1,52 @@
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import { open } from '@tauri-apps/plugin-dialog';
+
+// --- Desktop Batch Rename ---
+// Thin wrappers around the Tauri rename commands. They only work inside the desktop
+// app; check `canRenameFiles()` before offering the workflow.
+
+export type Rename = {
+  from: string;
+  to: string;
+};
+
+export type RenameIssue = {
+  kind: 'missing' | 'illegal' | 'collision';
+  message: string;
+};
+
+export type RenamePreview = Rename & {
+  unchanged: boolean;
+  issues: RenameIssue[];
+};
+
+export type ApplyResult = {
+  renamed: number;
+  // The undo log written next to the renamed files.
+  logPath: string;
+};
+
+export function canRenameFiles(): boolean {
+  return isTauri();
+}
+
+export async function pickFolder(): Promise<string | null> {
+  const folder = await open({ directory: true, title: "Choose a folder to rename" });
+  return typeof folder === 'string' ? folder : null;
+}
+
+export function listFolder(folder: string): Promise<string[]> {
+  return invoke<string[]>('list_folder', { folder });
+}
+
+export function previewRenames(folder: string, renames: Rename[]): Promise<RenamePreview[]> {
+  return invoke<RenamePreview[]>('preview_renames', { folder, renames });
+}
+
+export function applyRenames(folder: string, renames: Rename[]): Promise<ApplyResult> {
+  return invoke<ApplyResult>('apply_renames', { folder, renames });
+}
+
+export function undoRenames(logPath: string): Promise<number> {
+  return invoke<number>('undo_renames', { logPath });
+}
@@ -0,0 +1,76 @@
+import { useMemo, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { FileUp, FolderOpen } from 'lucide-react';
+import { parseAssetList } from '../core/nameTable.ts';
+import Modal from './Modal.tsx';
+
+interface AssetListDialogProps {
+  initialText: string;
+  onApply: (text: string) => void;
+  onClose: () => void;
+}
+
+function AssetListDialog({ initialText, onApply, onClose }: AssetListDialogProps) {
+  const [text, setText] = useState<string>(initialText);
+  const assetCount = useMemo(() => parseAssetList(text).size, [text]);
+
+  const handleOpenFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setText(await file.text());
+    e.target.value = '';
+  };
+
+  const handlePickFolder = (e: ChangeEvent<HTMLInputElement>) => {
+    const names = Array.from(e.target.files || []).map(f => f.name).filter(name => !name.startsWith('.'));
+    setText(names.join('\n'));
+    e.target.value = '';
+  };
+
+  return (
+    <Modal
+      title="Existing Assets"
+      onClose={onClose}
+      wide
+      footer={
+        <>
+          <button className="action-btn" onClick={() => onApply("")} disabled={!initialText}>Clear Status</button>
+          <button className="action-btn" onClick={onClose}>Cancel</button>
+          <button className="action-btn" onClick={() => onApply(text)}>
+            Use {assetCount.toLocaleString()} Asset(s)
+          </button>
+        </>
+      }
+    >
+      <p className="libraries-hint">
+        Generated names found in this list are marked done, the rest missing. Add a status after a tab or comma
+        (e.g. <code>Footstep_Metal_01.wav, wip</code>) to mark a name in progress; folders and extensions are ignored.
+      </p>
+
+      <div className="import-controls">
+        <label className="action-btn">
+          <FileUp size={14} /> Open File
+          <input type="file" accept=".csv,.tsv,.txt" onChange={handleOpenFile} style={{ display: 'none' }} />
+        </label>
+        <label className="action-btn">
+          <FolderOpen size={14} /> Pick Folder
+          <input
+            type="file"
+            multiple
+            ref={el => el?.setAttribute('webkitdirectory', '')}
+            onChange={handlePickFolder}
+            style={{ display: 'none' }}
+          />
+        </label>
+      </div>
+
+      <textarea
+        className="validate-input"
+        placeholder="Paste asset names, one per line, optionally followed by a status (done, wip, in progress)..."
+        value={text}
+        onChange={e => setText(e.target.value)}
+      />
+    </Modal>
+  );
+}
+
+export default AssetListDialog;
@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ArrowRight, FolderOpen, Undo2 } from 'lucide-react';
+import type { ConfigObj } from '../core/types.ts';
+import { slotTerms } from '../core/engine.ts';
+import { guessSelections, planRenames } from '../core/rename.ts';
+import type { RenameRow } from '../core/rename.ts';
+import { slotKeys, toSlot } from '../core/template.ts';
+import { applyRenames, canRenameFiles, listFolder, pickFolder, previewRenames, undoRenames } from '../batchRename.ts';
+import type { ApplyResult, RenamePreview } from '../batchRename.ts';
+
+interface BatchRenamePanelProps {
+  config: ConfigObj;
+  nameSetId: string;
+}
+
+type Row = RenameRow & { include: boolean };
+
+function BatchRenamePanel({ config, nameSetId }: BatchRenamePanelProps) {
+  const [folder, setFolder] = useState<string | null>(null);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [previews, setPreviews] = useState<RenamePreview[]>([]);
+  const [lastApply, setLastApply] = useState<ApplyResult | null>(null);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+
+  const nameSet = config.nameSets[nameSetId];
+  // Slots that take a term per file; pinned slots with a fixed term don't need one.
+  const pickSlots = useMemo(() => {
+    const template = nameSet?.template || [];
+    const keys = slotKeys(template);
+    return template
+      .map((entry, i) => ({ ...toSlot(entry), key: keys[i] }))
+      .filter(slot => !(slot.mode === 'pinned' && slot.pinned));
+  }, [nameSet]);
+
+  const included = useMemo(() => rows.filter(r => r.include), [rows]);
+  const plan = useMemo(() => planRenames(config, nameSetId, included), [config, nameSetId, included]);
+
+  useEffect(() => {
+    if (!folder) return;
+    let isCurrent = true;
+    previewRenames(folder, plan.map(({ from, to }) => ({ from, to })))
+      .then(result => {
+        if (isCurrent) setPreviews(result);
+      })
+      .catch(err => console.error("Rename preview failed", err));
+    return () => {
+      isCurrent = false;
+    };
+  }, [folder, plan]);
+
+  const loadFolder = async (path: string) => {
+    const files = await listFolder(path);
+    setFolder(path);
+    setRows(files.map(file => ({ file, include: true, selections: guessSelections(config, nameSetId, file) })));
+  };
+
+  const runTask = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await task();
+    } catch (err) {
+      alert(String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePickFolder = () => runTask(async () => {
+    const path = await pickFolder();
+    if (!path) return;
+    setLastApply(null);
+    await loadFolder(path);
+  });
+
+  const handleSelectionChange = (file: string, key: string, term: string) => {
+    setRows(prev => prev.map(r => r.file === file
+      ? { ...r, selections: { ...r.selections, [key]: term } }
+      : r));
+  };
+
+  const handleToggleRow = (file: string) => {
+    setRows(prev => prev.map(r => r.file === file ? { ...r, include: !r.include } : r));
+  };
+
+  const changes = plan.filter(p => p.from !== p.to);
+  const incomplete = plan.filter(p => p.missing.length > 0).length;
+  const pastLastVariation = plan.filter(p => p.pastLastVariation).length;
+  const blocked = previews.filter(p => p.issues.length > 0).length;
+  const canApply = !isBusy && !!folder && changes.length > 0 && incomplete === 0 && blocked === 0
+    && previews.length === plan.length;
+
+  const handleApply = () => runTask(async () => {
+    if (!folder) return;
+    if (!confirm(`Rename ${changes.length} file(s) in ${folder}?`)) return;
+    const result = await applyRenames(folder, changes.map(({ from, to }) => ({ from, to })));
+    setLastApply(result);
+    await loadFolder(folder);
+  });
+
+  const handleUndo = () => runTask(async () => {
+    if (!folder || !lastApply) return;
+    await undoRenames(lastApply.logPath);
+    setLastApply(null);
+    await loadFolder(folder);
+  });
+
+  if (!canRenameFiles()) {
+    return <p className="rename-empty">Batch renaming needs file access and is only available in the desktop app.</p>;
+  }
+
+  const previewFor = (file: string) => previews.find(p => p.from === file);
+
+  return (
+    <div className="rename-panel">
+      <div className="rename-controls">
+        <button className="action-btn" onClick={handlePickFolder} disabled={isBusy}>
+          <FolderOpen size={14} /> {folder ? "Change Folder" : "Pick Folder"}
+        </button>
+        {folder && <code className="rename-folder" title={folder}>{folder}</code>}
+        {lastApply && (
+          <button className="action-btn" onClick={handleUndo} disabled={isBusy} title={lastApply.logPath}>
+            <Undo2 size={14} /> Undo {lastApply.renamed} rename(s)
+          </button>
+        )}
+      </div>
+
+      {folder && rows.length === 0 && <p className="rename-empty">This folder has no files.</p>}
+
+      {rows.length > 0 && (
+        <div className="rename-table-wrapper">
+          <table className="rename-table">
+            <thead>
+              <tr>
+                <th></th>
+                <th>Current Name</th>
+                {pickSlots.map(slot => <th key={slot.key}>{slot.key}</th>)}
+                <th></th>
+                <th>New Name</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const planned = plan.find(p => p.from === row.file);
+                const preview = previewFor(row.file);
+                const problems = [
+                  ...(planned?.missing.map(el => `Pick a ${el} term.`) || []),
+                  ...(planned?.pastLastVariation ? ["More files share this name than the NameSet has variations."] : []),
+                  ...(preview?.issues.map(issue => issue.message) || [])
+                ];
+                return (
+                  <tr key={row.file} className={row.include ? '' : 'excluded'}>
+                    <td>
+                      <input type="checkbox" checked={row.include} onChange={() => handleToggleRow(row.file)} />
+                    </td>
+                    <td><code>{row.file}</code></td>
+                    {pickSlots.map(slot => (
+                      <td key={slot.key}>
+                        <select
+                          className="term-select"
+                          value={row.selections[slot.key] || ""}
+                          disabled={!row.include}
+                          onChange={e => handleSelectionChange(row.file, slot.key, e.target.value)}
+                        >
+                          {slot.mode === 'optional'
+                            ? <option value="">(Leave out)</option>
+                            : <option value="" disabled>Select...</option>}
+                          {slotTerms(config, { ...slot, mode: slot.mode === 'pinned' ? undefined : slot.mode }).map(t => (
+                            <option key={t} value={t}>{t}</option>
+                          ))}
+                        </select>
+                      </td>
+                    ))}
+                    <td><ArrowRight size={12} /></td>
+                    <td>
+                      {planned && (
+                        <div className={`rename-target ${problems.length > 0 ? 'invalid' : ''}`}>
+                          <code>{planned.to}</code>
+                          {problems.length > 0 && (
+                            <span className="rename-warning" title={problems.join('\n')}>
+                              <AlertTriangle size={12} /> {problems[0]}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="rename-footer">
+          <span className="rename-summary">
+            {changes.length} to rename
+            {incomplete > 0 && ` · ${incomplete} need terms`}
+            {pastLastVariation > 0 && ` · ${pastLastVariation} past the last variation`}
+            {blocked > 0 && ` · ${blocked} blocked`}
+          </span>
+          <button className="action-btn" onClick={handleApply} disabled={!canApply}>
+            Rename {changes.length} File(s)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BatchRenamePanel;
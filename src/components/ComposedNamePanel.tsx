@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Copy, Check, History } from 'lucide-react';
+import type { VariationDef } from '../core/types.ts';
+import { formatVariation, hasVariations } from '../core/engine.ts';
+
+interface ComposedNamePanelProps {
+  name: string;
+  history: string[];
+  variations?: VariationDef;
+  variation: number | null;
+  // Rejects when the clipboard refuses the text
+  onCopy: (name: string) => Promise<void>;
+  onVariationChange: (variation: number | null) => void;
+}
+
+function ComposedNamePanel({ name, history, variations, variation, onCopy, onVariationChange }: ComposedNamePanelProps) {
+  const [copiedName, setCopiedName] = useState<string | null>(null);
+  const [copyError, setCopyError] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+
+  const handleCopy = async (value: string) => {
+    try {
+      await onCopy(value);
+    } catch (err) {
+      // Usually a denied clipboard permission, or the window not having focus
+      setCopyError(`Could not copy to the clipboard: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    setCopyError(null);
+    setCopiedName(value);
+    setTimeout(() => setCopiedName(current => current === value ? null : current), 1500);
+  };
+
+  return (
+    <div className="composed-name-panel">
+      <div className="composed-name-row">
+        <span className="template-label">Current Name</span>
+        <code className="composed-name" title={name}>{name}</code>
+        {hasVariations(variations) && (
+          <select
+            className="term-select composed-variation"
+            value={variation ?? variations.start}
+            onChange={e => onVariationChange(parseInt(e.target.value, 10))}
+            title="Variation"
+          >
+            {Array.from({ length: variations.count }, (_, i) => variations.start + i).map(n => (
+              <option key={n} value={n}>{formatVariation(variations, n)}</option>
+            ))}
+          </select>
+        )}
+        <button className="action-btn" onClick={() => handleCopy(name)} title="Copy name">
+          {copiedName === name ? <Check size={14} /> : <Copy size={14} />} Copy
+        </button>
+        <button
+          className={`action-btn ${isHistoryOpen ? 'active' : ''}`}
+          onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+          title="Recently copied names"
+          disabled={history.length === 0}
+        >
+          <History size={14} /> {history.length}
+        </button>
+      </div>
+
+      {copyError && <p className="term-editor-error">{copyError}</p>}
+
+      {isHistoryOpen && history.length > 0 && (
+        <ul className="composed-history">
+          {history.map(entry => (
+            <li key={entry}>
+              <button className="list-item" onClick={() => handleCopy(entry)} title="Copy again">
+                {copiedName === entry ? <Check size={12} /> : <Copy size={12} />}
+                <code>{entry}</code>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ComposedNamePanel;
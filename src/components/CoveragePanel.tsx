@@ -0,0 +1,252 @@
+import { useDeferredValue, useMemo, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { Camera, Copy, Download, FileUp, FolderOpen, FolderSearch, Trash2 } from 'lucide-react';
+import type { ConfigObj, CoverageSnapshot } from '../core/types.ts';
+import { nameSetSpace } from '../core/engine.ts';
+import { slotKeys } from '../core/template.ts';
+import { coveragePercent, coverageReport, coverageSnapshot, missingNames } from '../core/coverage.ts';
+import { canScanFolders, pickDeliveryFolder, scanFolder } from '../assetScan.ts';
+import { downloadFile } from '../fileAccess.ts';
+
+interface CoveragePanelProps {
+  // With libraries and variants resolved
+  config: ConfigObj;
+  defaultNameSet: string;
+  onSaveSnapshot: (nameSetId: string, snapshot: CoverageSnapshot) => void;
+  onRemoveSnapshot: (nameSetId: string, index: number) => void;
+}
+
+// Where the file names came from
+type Delivery = { source: string; files: string[] };
+
+const PASTED_SOURCE = "Pasted list";
+
+const MAX_LISTED_UNEXPECTED = 200;
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 60;
+
+function CoverageChart({ snapshots }: { snapshots: CoverageSnapshot[] }) {
+  const points = snapshots.map((s, i) => ({
+    x: snapshots.length === 1 ? CHART_WIDTH / 2 : (i / (snapshots.length - 1)) * CHART_WIDTH,
+    y: CHART_HEIGHT - (coveragePercent(s.delivered, s.expected) / 100) * CHART_HEIGHT,
+    snapshot: s
+  }));
+  return (
+    <svg className="coverage-chart" viewBox={`-4 -4 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 8}`} width={CHART_WIDTH + 8} height={CHART_HEIGHT + 8}>
+      <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} className="coverage-chart-axis" />
+      <polyline points={points.map(p => `${p.x},${p.y}`).join(' ')} className="coverage-chart-line" />
+      {points.map((p, i) => (
+        <circle key={i} cx={p.x} cy={p.y} r={3} className="coverage-chart-point">
+          <title>
+            {new Date(p.snapshot.date).toLocaleString()}: {coveragePercent(p.snapshot.delivered, p.snapshot.expected)}%
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+function CoveragePanel({ config, defaultNameSet, onSaveSnapshot, onRemoveSnapshot }: CoveragePanelProps) {
+  const [nameSetId, setNameSetId] = useState<string>(defaultNameSet);
+  const [pasted, setPasted] = useState<string>("");
+  const [scanned, setScanned] = useState<Delivery | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [copyError, setCopyError] = useState<string | null>(null);
+
+  // The report scans up to COVERAGE_SCAN_LIMIT names, so it trails behind typing
+  const deferredPasted = useDeferredValue(pasted);
+  const delivery: Delivery = useMemo(
+    () => scanned ?? { source: PASTED_SOURCE, files: deferredPasted.split(/\r?\n/).map(l => l.trim()).filter(Boolean) },
+    [scanned, deferredPasted]
+  );
+  const space = useMemo(() => nameSetSpace(config, nameSetId), [config, nameSetId]);
+  const keys = useMemo(() => slotKeys(config.nameSets[nameSetId]?.template || []), [config, nameSetId]);
+  const report = useMemo(
+    () => delivery.files.length > 0 ? coverageReport(space, keys, delivery.files) : null,
+    [space, keys, delivery]
+  );
+  const snapshots = config.nameSets[nameSetId]?.coverage || [];
+
+  // --- Delivered Files ---
+
+  const handleScanFolder = async () => {
+    const folder = await pickDeliveryFolder();
+    if (!folder) return;
+    try {
+      setScanned({ source: folder, files: await scanFolder(folder) });
+      setScanError(null);
+    } catch (err) {
+      setScanError(String(err));
+    }
+  };
+
+  const handlePickFolder = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter(f => !f.name.startsWith('.'));
+    const folder = files[0]?.webkitRelativePath.split('/')[0];
+    if (files.length > 0) setScanned({ source: folder || "Picked folder", files: files.map(f => f.name) });
+    e.target.value = '';
+  };
+
+  const handleOpenFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setPasted(await file.text());
+      setScanned(null);
+    }
+    e.target.value = '';
+  };
+
+  // --- Missing List ---
+
+  const missingText = () => [...missingNames(space, delivery.files)].join('\n');
+
+  const handleCopyMissing = async () => {
+    try {
+      await navigator.clipboard.writeText(missingText());
+      setCopyError(null);
+    } catch (err) {
+      setCopyError(`Could not copy to the clipboard: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleExportMissing = () => {
+    downloadFile(missingText(), `${nameSetId}_missing.txt`, 'text/plain;charset=utf-8');
+  };
+
+  return (
+    <div className="coverage-panel">
+      <div className="validate-controls">
+        <label className="config-label">NameSet</label>
+        <select className="term-select" value={nameSetId} onChange={e => setNameSetId(e.target.value)}>
+          {Object.keys(config.nameSets).map(ns => <option key={ns} value={ns}>{ns}</option>)}
+        </select>
+        {canScanFolders() ? (
+          <button className="action-btn" onClick={handleScanFolder}><FolderSearch size={14} /> Scan Folder...</button>
+        ) : (
+          <label className="action-btn">
+            <FolderOpen size={14} /> Pick Folder
+            <input
+              type="file"
+              multiple
+              ref={el => el?.setAttribute('webkitdirectory', '')}
+              onChange={handlePickFolder}
+              style={{ display: 'none' }}
+            />
+          </label>
+        )}
+        <label className="action-btn">
+          <FileUp size={14} /> Open List
+          <input type="file" accept=".csv,.tsv,.txt" onChange={handleOpenFile} style={{ display: 'none' }} />
+        </label>
+      </div>
+
+      {scanError && <p className="term-editor-error">{scanError}</p>}
+
+      {scanned ? (
+        <div className="coverage-source">
+          <span>{scanned.files.length.toLocaleString()} file(s) in <code>{scanned.source}</code></span>
+          <button className="action-btn" onClick={() => setScanned(null)}>Use a Pasted List Instead</button>
+        </div>
+      ) : (
+        <textarea
+          className="validate-input coverage-input"
+          placeholder="Paste delivered filenames, one per line..."
+          value={pasted}
+          onChange={e => setPasted(e.target.value)}
+        />
+      )}
+
+      {report && (
+        <>
+          <div className="coverage-summary">
+            <progress value={report.delivered} max={Math.max(report.expected, 1)} />
+            <span className="pass">{report.delivered.toLocaleString()} delivered</span>
+            <span className="fail">{(report.expected - report.delivered).toLocaleString()} missing</span>
+            <span className="warn">{report.unexpected.length.toLocaleString()} unexpected</span>
+            <span>
+              {coveragePercent(report.delivered, report.expected)}% of {report.expected.toLocaleString()}
+              {report.truncated && ` (the first ${report.expected.toLocaleString()} of ${space.total.toLocaleString()} names)`}
+            </span>
+          </div>
+
+          <div className="rename-controls">
+            <button
+              className="action-btn"
+              onClick={handleCopyMissing}
+              disabled={report.delivered === report.expected}
+            >
+              <Copy size={14} /> Copy Missing
+            </button>
+            <button className="action-btn" onClick={handleExportMissing} disabled={report.delivered === report.expected}>
+              <Download size={14} /> Export Missing...
+            </button>
+            <button
+              className="action-btn"
+              onClick={() => onSaveSnapshot(nameSetId, coverageSnapshot(report, delivery.source))}
+              title="Save these counts in the project to chart progress over time"
+            >
+              <Camera size={14} /> Save Snapshot
+            </button>
+            {copyError && <span className="term-editor-error">{copyError}</span>}
+          </div>
+
+          <div className="coverage-slots">
+            {report.slots.map(slot => (
+              <div key={slot.key} className="coverage-slot">
+                <span className="template-label">{slot.key}</span>
+                <ul>
+                  {slot.terms.map(t => (
+                    <li key={t.term ?? ''} className={t.delivered === t.expected ? 'complete' : ''}>
+                      <span className="coverage-term">{t.term ?? "(none)"}</span>
+                      <span className="coverage-count">{t.delivered.toLocaleString()}/{t.expected.toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          {report.unexpected.length > 0 && (
+            <details className="coverage-unexpected">
+              <summary>Unexpected files ({report.unexpected.length.toLocaleString()})</summary>
+              <ul className="validate-issues">
+                {report.unexpected.slice(0, MAX_LISTED_UNEXPECTED).map(file => <li key={file}>{file}</li>)}
+                {report.unexpected.length > MAX_LISTED_UNEXPECTED && (
+                  <li>…and {(report.unexpected.length - MAX_LISTED_UNEXPECTED).toLocaleString()} more</li>
+                )}
+              </ul>
+            </details>
+          )}
+        </>
+      )}
+
+      {snapshots.length > 0 && (
+        <div className="coverage-history">
+          <span className="template-label">Saved Snapshots</span>
+          <CoverageChart snapshots={snapshots} />
+          <table className="coverage-snapshots">
+            <tbody>
+              {snapshots.map((s, i) => (
+                <tr key={`${s.date}-${i}`}>
+                  <td>{new Date(s.date).toLocaleString()}</td>
+                  <td>{s.delivered.toLocaleString()}/{s.expected.toLocaleString()}</td>
+                  <td>{coveragePercent(s.delivered, s.expected)}%</td>
+                  <td>{s.unexpected > 0 && `${s.unexpected.toLocaleString()} unexpected`}</td>
+                  <td className="coverage-snapshot-source">{s.source}</td>
+                  <td>
+                    <button className="icon-btn" onClick={() => onRemoveSnapshot(nameSetId, i)} title="Delete this snapshot">
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CoveragePanel;
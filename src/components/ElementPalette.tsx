@@ -0,0 +1,54 @@
+import { useDraggable } from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import { Plus } from 'lucide-react';
+
+interface ElementPaletteProps {
+  elements: string[];
+  onAdd: (element: string) => void;
+}
+
+interface PaletteChipProps {
+  element: string;
+  onAdd: () => void;
+}
+
+// Chips carry `{ paletteElement }` as drag data so the template row can tell a new
+// slot being dropped in from a slot being reordered.
+function PaletteChip({ element, onAdd }: PaletteChipProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: `palette:${element}`,
+    data: { paletteElement: element }
+  });
+
+  const style = {
+    transform: CSS.Translate.toString(transform),
+    zIndex: isDragging ? 10 : undefined,
+  };
+
+  return (
+    <span
+      ref={setNodeRef}
+      style={style}
+      className={`palette-chip ${isDragging ? 'dragging' : ''}`}
+      title={`Drag into the template, or click + to add {${element}} at the end`}
+      {...attributes}
+      {...listeners}
+    >
+      {element}
+      <button onClick={onAdd} title={`Add {${element}}`}><Plus size={12} /></button>
+    </span>
+  );
+}
+
+function ElementPalette({ elements, onAdd }: ElementPaletteProps) {
+  return (
+    <div className="element-palette">
+      <span className="config-label">Elements</span>
+      {elements.map(element => (
+        <PaletteChip key={element} element={element} onAdd={() => onAdd(element)} />
+      ))}
+    </div>
+  );
+}
+
+export default ElementPalette;
@@ -0,0 +1,204 @@
+import { Fragment, useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import type { NameSetDef } from '../core/types.ts';
+import type { PermutationSpace } from '../core/engine.ts';
+import { exportLines, rowCount } from '../core/export.ts';
+import type { ExportFormat, ExportOptions, LineEnding } from '../core/export.ts';
+import { EXPORTERS, defaultValues, findExporter } from '../core/exporters/index.ts';
+import type { Exporter, ExporterSetting, ExporterValues } from '../core/exporters/index.ts';
+import Modal from './Modal.tsx';
+
+interface ExportDialogProps {
+  space: PermutationSpace;
+  nameSetId: string;
+  nameSet: NameSetDef | undefined;
+  initialOptions: ExportOptions;
+  // 'list' for the name list, otherwise a tool exporter's id
+  initialTarget: string;
+  initialToolValues: Record<string, ExporterValues>;
+  // Indexes of the names to export when only some were picked
+  rows?: number[];
+  onExport: (options: ExportOptions) => void;
+  onExportWith: (exporter: Exporter, values: ExporterValues) => void;
+  onClose: () => void;
+}
+
+const LIST_TARGET = 'list';
+
+const PREVIEW_LINES = 6;
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: "CSV" },
+  { value: 'tsv', label: "TSV (tab-separated)" },
+  { value: 'json', label: "JSON" }
+];
+
+const DELIMITER_OPTIONS = [
+  { value: ',', label: "Comma ( , )" },
+  { value: ';', label: "Semicolon ( ; )" },
+  { value: '|', label: "Pipe ( | )" }
+];
+
+const LINE_ENDING_OPTIONS: { value: LineEnding; label: string }[] = [
+  { value: '\r\n', label: "Windows (CRLF)" },
+  { value: '\n', label: "Unix (LF)" }
+];
+
+function ExportDialog({
+  space,
+  nameSetId,
+  nameSet,
+  initialOptions,
+  initialTarget,
+  initialToolValues,
+  rows,
+  onExport,
+  onExportWith,
+  onClose
+}: ExportDialogProps) {
+  const [options, setOptions] = useState<ExportOptions>(initialOptions);
+  const [target, setTarget] = useState<string>(findExporter(initialTarget) ? initialTarget : LIST_TARGET);
+  const [toolValues, setToolValues] = useState<Record<string, ExporterValues>>(initialToolValues);
+
+  const exporter = findExporter(target);
+  const values = useMemo(
+    () => exporter ? { ...defaultValues(exporter), ...toolValues[exporter.id] } : {},
+    [exporter, toolValues]
+  );
+
+  const count = rowCount(space, rows);
+
+  const update = (changes: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+  const updateSetting = (key: string, value: string | number) => {
+    if (!exporter) return;
+    setToolValues(prev => ({ ...prev, [exporter.id]: { ...prev[exporter.id], [key]: value } }));
+  };
+
+  const preview = useMemo(() => {
+    const lines: string[] = [];
+    const source = exporter
+      ? exporter.export({ space, nameSetId, nameSet, values, rows: rows?.slice(0, PREVIEW_LINES) ?? PREVIEW_LINES }).lines
+      : exportLines(space, nameSetId, nameSet, { ...options, bom: false }, rows);
+    for (const line of source) {
+      lines.push(line);
+      if (lines.length >= PREVIEW_LINES) break;
+    }
+    return lines.join('\n');
+  }, [space, nameSetId, nameSet, options, exporter, values, rows]);
+
+  const renderSetting = (setting: ExporterSetting) => {
+    const value = values[setting.key];
+    switch (setting.kind) {
+      case 'select':
+        return (
+          <select className="term-select" value={String(value)} onChange={e => updateSetting(setting.key, e.target.value)}>
+            {setting.choices.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        );
+      case 'number':
+        return (
+          <input
+            type="number"
+            className="term-input"
+            value={typeof value === 'number' && !Number.isNaN(value) ? value : ''}
+            min={setting.min}
+            step={setting.step}
+            onChange={e => updateSetting(setting.key, e.target.valueAsNumber)}
+          />
+        );
+      case 'text':
+        return (
+          <input
+            type="text"
+            className="term-input"
+            value={String(value)}
+            placeholder={setting.placeholder}
+            onChange={e => updateSetting(setting.key, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <Modal
+      title={rows ? `Export Selected ${nameSetId} Names` : `Export ${nameSetId}`}
+      onClose={onClose}
+      wide
+      footer={
+        <>
+          <button className="action-btn" onClick={onClose}>Cancel</button>
+          <button
+            className="action-btn"
+            onClick={() => exporter ? onExportWith(exporter, values) : onExport(options)}
+            disabled={count === 0}
+          >
+            <Download size={14} /> Export {count.toLocaleString()} Names
+          </button>
+        </>
+      }
+    >
+      <div className="export-form">
+        <label className="config-label">Export As</label>
+        <select className="term-select" value={target} onChange={e => setTarget(e.target.value)}>
+          <option value={LIST_TARGET}>Name List</option>
+          <optgroup label="Audio Tools">
+            {EXPORTERS.map(e => <option key={e.id} value={e.id}>{e.label}</option>)}
+          </optgroup>
+        </select>
+
+        {exporter && (
+          <>
+            <p className="export-description">{exporter.description}</p>
+            {exporter.settings.map(setting => (
+              <Fragment key={setting.key}>
+                <label className="config-label">{setting.label}</label>
+                {renderSetting(setting)}
+              </Fragment>
+            ))}
+          </>
+        )}
+
+        {!exporter && (
+          <>
+            <label className="config-label">Format</label>
+            <select className="term-select" value={options.format} onChange={e => update({ format: e.target.value as ExportFormat })}>
+              {FORMAT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+
+            {options.format === 'csv' && (
+              <>
+                <label className="config-label">Delimiter</label>
+                <select className="term-select" value={options.delimiter} onChange={e => update({ delimiter: e.target.value })}>
+                  {DELIMITER_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              </>
+            )}
+
+            <label className="config-label">Line Ending</label>
+            <select
+              className="term-select"
+              value={options.lineEnding}
+              onChange={e => update({ lineEnding: e.target.value as LineEnding })}
+            >
+              {LINE_ENDING_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+
+            <label className="export-check">
+              <input type="checkbox" checked={options.metadata} onChange={e => update({ metadata: e.target.checked })} />
+              Include NameSet, Group and Tags
+            </label>
+            <label className="export-check">
+              <input type="checkbox" checked={options.bom} onChange={e => update({ bom: e.target.checked })} />
+              Add UTF-8 BOM (for Excel)
+            </label>
+          </>
+        )}
+      </div>
+
+      <span className="template-label">Preview</span>
+      <pre className="export-preview">{preview}</pre>
+    </Modal>
+  );
+}
+
+export default ExportDialog;
@@ -0,0 +1,61 @@
+import { Redo2, Undo2 } from 'lucide-react';
+import type { History } from '../core/history.ts';
+
+interface HistoryPanelProps {
+  history: History;
+  onUndo: (steps: number) => void;
+  onRedo: (steps: number) => void;
+}
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Recent edits, newest first. Clicking an entry returns the project to just after it;
+// undone entries stay listed (dimmed) until a new edit replaces them.
+function HistoryPanel({ history, onUndo, onRedo }: HistoryPanelProps) {
+  const { past, future } = history;
+
+  return (
+    <div className="history-panel">
+      <div className="history-controls">
+        <button className="action-btn" onClick={() => onUndo(1)} disabled={past.length === 0} title="Undo (Ctrl+Z)">
+          <Undo2 size={14} /> Undo
+        </button>
+        <button className="action-btn" onClick={() => onRedo(1)} disabled={future.length === 0} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 size={14} /> Redo
+        </button>
+      </div>
+
+      <ul className="history-list">
+        {future.map((command, i) => ({ command, i })).reverse().map(({ command, i }) => (
+          <li key={`future-${i}`}>
+            <button className="history-item undone" onClick={() => onRedo(i + 1)}>
+              <span>{command.label}</span>
+              <span className="history-time">{formatTime(command.at)}</span>
+            </button>
+          </li>
+        ))}
+        {past.map((command, i) => ({ command, i })).reverse().map(({ command, i }) => (
+          <li key={`past-${i}`}>
+            <button
+              className={`history-item ${i === past.length - 1 ? 'current' : ''}`}
+              onClick={() => onUndo(past.length - 1 - i)}
+            >
+              <span>{command.label}</span>
+              <span className="history-time">{formatTime(command.at)}</span>
+            </button>
+          </li>
+        ))}
+        <li>
+          <button
+            className={`history-item ${past.length === 0 ? 'current' : ''}`}
+            onClick={() => onUndo(past.length)}
+          >
+            <span>Project opened</span>
+          </button>
+        </li>
+      </ul>
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,227 @@
+import { useMemo, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { FileUp, FolderOpen } from 'lucide-react';
+import type { ElementDef } from '../core/types.ts';
+import { csvColumns, filenameColumns, listColumn, summarizeColumn } from '../core/importTerms.ts';
+import type { ImportColumn } from '../core/importTerms.ts';
+import Modal from './Modal.tsx';
+
+interface ImportDialogProps {
+  elements: Record<string, ElementDef>;
+  // Suggested delimiter for splitting filenames, usually the active NameSet's.
+  delimiter: string;
+  onImport: (columns: ImportColumn[]) => void;
+  onClose: () => void;
+}
+
+type ImportSource = 'csv' | 'list' | 'folder';
+
+const SOURCE_OPTIONS: { value: ImportSource; label: string }[] = [
+  { value: 'csv', label: "CSV" },
+  { value: 'list', label: "List" },
+  { value: 'folder', label: "Filenames" }
+];
+
+const CSV_DELIMITERS = [
+  { value: ',', label: "Comma" },
+  { value: ';', label: "Semicolon" },
+  { value: '\t', label: "Tab" }
+];
+
+const PLACEHOLDERS: Record<ImportSource, string> = {
+  csv: "Paste CSV here, or open a file. Each column becomes an Element...",
+  list: "Paste terms, one per line...",
+  folder: "Pick a folder, or paste filenames one per line..."
+};
+
+const SAMPLE_TERMS = 6;
+
+function ImportDialog({ elements, delimiter, onImport, onClose }: ImportDialogProps) {
+  const [source, setSource] = useState<ImportSource>('csv');
+  const [text, setText] = useState<string>("");
+  const [csvDelimiter, setCsvDelimiter] = useState<string>(',');
+  const [hasHeader, setHasHeader] = useState<boolean>(true);
+  const [listElement, setListElement] = useState<string>("");
+  const [splitDelimiter, setSplitDelimiter] = useState<string>(delimiter);
+  // Element names the user typed over the proposed ones, by column index
+  const [renamed, setRenamed] = useState<Record<number, string>>({});
+
+  const columns = useMemo(() => {
+    if (!text.trim()) return [];
+    let proposed: ImportColumn[];
+    switch (source) {
+      case 'csv':
+        proposed = csvColumns(text, csvDelimiter, hasHeader);
+        break;
+      case 'list':
+        proposed = [listColumn(text, listElement.trim())];
+        break;
+      case 'folder':
+        proposed = filenameColumns(text.split(/\r?\n/), splitDelimiter, elements);
+        break;
+    }
+    return proposed.map((c, i) => source !== 'list' && renamed[i] !== undefined ? { ...c, element: renamed[i] } : c);
+  }, [text, source, csvDelimiter, hasHeader, listElement, splitDelimiter, elements, renamed]);
+
+  const kept = columns.filter(c => c.element.trim() && c.terms.length > 0);
+  const addedCount = kept.reduce((sum, c) => sum + summarizeColumn(elements, c).added.length, 0);
+
+  const handleSourceChange = (next: ImportSource) => {
+    setSource(next);
+    setText("");
+    setRenamed({});
+  };
+
+  const handleOpenFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setText(await file.text());
+    e.target.value = '';
+  };
+
+  const handlePickFolder = (e: ChangeEvent<HTMLInputElement>) => {
+    const names = Array.from(e.target.files || []).map(f => f.name).filter(name => !name.startsWith('.'));
+    setText(names.join('\n'));
+    e.target.value = '';
+  };
+
+  return (
+    <Modal
+      title="Import Terms"
+      onClose={onClose}
+      wide
+      footer={
+        <>
+          <button className="action-btn" onClick={onClose}>Cancel</button>
+          <button className="action-btn" onClick={() => onImport(kept)} disabled={kept.length === 0}>
+            Import {addedCount} New Term(s)
+          </button>
+        </>
+      }
+    >
+      <div className="import-controls">
+        <div className="import-sources">
+          {SOURCE_OPTIONS.map(o => (
+            <button
+              key={o.value}
+              className={`tab-btn ${source === o.value ? 'active' : ''}`}
+              onClick={() => handleSourceChange(o.value)}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+
+        {source === 'csv' && (
+          <>
+            <label className="action-btn">
+              <FileUp size={14} /> Open File
+              <input type="file" accept=".csv,.tsv,.txt" onChange={handleOpenFile} style={{ display: 'none' }} />
+            </label>
+            <select className="term-select" value={csvDelimiter} onChange={e => setCsvDelimiter(e.target.value)}>
+              {CSV_DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+            </select>
+            <label className="export-check">
+              <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+              First row is headers
+            </label>
+          </>
+        )}
+
+        {source === 'list' && (
+          <input
+            className="term-input"
+            list="import-element-names"
+            placeholder="Element name..."
+            value={listElement}
+            onChange={e => setListElement(e.target.value)}
+          />
+        )}
+
+        {source === 'folder' && (
+          <>
+            <label className="action-btn">
+              <FolderOpen size={14} /> Pick Folder
+              <input
+                type="file"
+                multiple
+                ref={el => el?.setAttribute('webkitdirectory', '')}
+                onChange={handlePickFolder}
+                style={{ display: 'none' }}
+              />
+            </label>
+            <label className="config-label">Split on</label>
+            <input
+              className="term-input delimiter-input"
+              value={splitDelimiter}
+              onChange={e => setSplitDelimiter(e.target.value)}
+              title="Delimiter between the parts of each filename"
+            />
+          </>
+        )}
+      </div>
+
+      <textarea
+        className="validate-input"
+        placeholder={PLACEHOLDERS[source]}
+        value={text}
+        onChange={e => setText(e.target.value)}
+      />
+
+      <datalist id="import-element-names">
+        {Object.keys(elements).map(el => <option key={el} value={el} />)}
+      </datalist>
+
+      {columns.length > 0 && (
+        <div className="rename-table-wrapper import-mapping">
+          <table className="rename-table">
+            <thead>
+              <tr>
+                <th>Source</th>
+                <th>Element</th>
+                <th>Terms</th>
+                <th>Sample</th>
+              </tr>
+            </thead>
+            <tbody>
+              {columns.map((column, i) => {
+                const { added, existing } = summarizeColumn(elements, column);
+                const skipped = !column.element.trim();
+                return (
+                  <tr key={i} className={skipped ? 'excluded' : ''}>
+                    <td>{column.source}</td>
+                    <td>
+                      <input
+                        className="term-input"
+                        list="import-element-names"
+                        placeholder="(Skip)"
+                        value={column.element}
+                        onChange={e => source === 'list'
+                          ? setListElement(e.target.value)
+                          : setRenamed(prev => ({ ...prev, [i]: e.target.value }))}
+                      />
+                    </td>
+                    <td className="import-counts">
+                      {skipped ? "Skipped" : (
+                        <>
+                          {added.length} new
+                          {existing.length > 0 && `, ${existing.length} merged`}
+                          {!elements[column.element.trim()] && " (new Element)"}
+                        </>
+                      )}
+                    </td>
+                    <td className="import-sample">
+                      {column.terms.slice(0, SAMPLE_TERMS).join(', ')}
+                      {column.terms.length > SAMPLE_TERMS && ` … +${column.terms.length - SAMPLE_TERMS}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+export default ImportDialog;
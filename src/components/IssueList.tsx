@@ -0,0 +1,20 @@
+import type { SchemaIssue } from '../core/schema.ts';
+
+interface IssueListProps {
+  issues: SchemaIssue[];
+}
+
+function IssueList({ issues }: IssueListProps) {
+  return (
+    <ul className="issue-list">
+      {issues.map((issue, i) => (
+        <li key={i} className="issue-item">
+          <code className="issue-path">{issue.path}</code>
+          <span className="issue-message">{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default IssueList;
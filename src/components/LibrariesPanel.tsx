@@ -0,0 +1,76 @@
+import { AlertTriangle, CheckCircle2, FilePlus, FolderSearch, Plus, Trash2, XCircle } from 'lucide-react';
+import { libraryName } from '../core/libraries.ts';
+import type { LibraryIssue, LoadedLibrary } from '../core/libraries.ts';
+
+interface LibrariesPanelProps {
+  // Library paths the project references, in merge order
+  paths: string[];
+  loaded: LoadedLibrary[];
+  issues: LibraryIssue[];
+  onLocate: () => void;
+  onAdd: () => void;
+  onCreate: () => void;
+  onRemove: (path: string) => void;
+}
+
+function LibrariesPanel({ paths, loaded, issues, onLocate, onAdd, onCreate, onRemove }: LibrariesPanelProps) {
+  const unresolved = paths.filter(path => !loaded.find(l => l.path === path)?.library);
+  const otherIssues = issues.filter(issue => issue.kind === 'conflict' || issue.kind === 'reference');
+
+  return (
+    <div className="libraries-panel">
+      <p className="libraries-hint">
+        Elements from shared library files are merged under this project's own. Library terms are read-only here;
+        terms the project adds to a library element can be promoted into the library.
+      </p>
+
+      <div className="rename-controls">
+        <button className="action-btn" onClick={onAdd}><Plus size={14} /> Add Library...</button>
+        <button className="action-btn" onClick={onCreate}><FilePlus size={14} /> New Library...</button>
+        {unresolved.length > 0 && (
+          <button className="action-btn" onClick={onLocate}>
+            <FolderSearch size={14} /> Locate {unresolved.length} Missing...
+          </button>
+        )}
+      </div>
+
+      {paths.length === 0 && <p className="rename-empty">This project doesn't use any libraries.</p>}
+
+      {paths.length > 0 && (
+        <ul className="library-list">
+          {paths.map(path => {
+            const entry = loaded.find(l => l.path === path);
+            const status = entry?.library ? 'loaded' : entry?.error ? 'invalid' : 'missing';
+            return (
+              <li key={path} className={`library-item ${status}`}>
+                {status === 'loaded' ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
+                <div className="library-details">
+                  <span className="library-name">{entry ? libraryName(entry) : path}</span>
+                  <code>{path}</code>
+                  {status === 'loaded' && (
+                    <span className="library-summary">{Object.keys(entry!.library!.elements).length} element(s)</span>
+                  )}
+                  {status === 'missing' && <span className="library-summary">Not found yet</span>}
+                  {status === 'invalid' && <span className="library-summary">{entry!.error}</span>}
+                </div>
+                <button className="icon-btn" onClick={() => onRemove(path)} title="Stop using this library">
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {otherIssues.length > 0 && (
+        <ul className="validate-issues library-issues">
+          {otherIssues.map((issue, i) => (
+            <li key={i}><AlertTriangle size={12} /> {issue.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default LibrariesPanel;
@@ -0,0 +1,111 @@
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { LintSettings, LintSeverity } from '../core/types.ts';
+import { LINT_RULES, LINT_SCAN_LIMIT, disallowedPattern } from '../core/lint.ts';
+import type { LintReport } from '../core/lint.ts';
+
+interface LintPanelProps {
+  settings: LintSettings;
+  report: LintReport;
+  // Whether `report` is from before the latest change, with a new scan under way
+  checking: boolean;
+  // Names in the active NameSet, of which `report.checked` were scanned
+  total: number;
+  onChange: (settings: LintSettings) => void;
+  onReset: () => void;
+}
+
+const SEVERITY_OPTIONS: { value: LintSeverity; label: string }[] = [
+  { value: 'error', label: "Error" },
+  { value: 'warning', label: "Warning" },
+  { value: 'off', label: "Off" }
+];
+
+function LintPanel({ settings, report, checking, total, onChange, onReset }: LintPanelProps) {
+  const update = (changes: Partial<LintSettings>) => onChange({ ...settings, ...changes });
+  const invalidCharset = settings.allowedCharacters !== '' && !disallowedPattern(settings.allowedCharacters);
+
+  return (
+    <div className="lint-panel">
+      <div className={`lint-summary ${report.errors > 0 ? 'error' : report.warnings > 0 ? 'warning' : 'ok'}`}>
+        {report.errors + report.warnings === 0 ? <CheckCircle2 size={14} /> : <AlertTriangle size={14} />}
+        {checking && report.checked === 0 ? (
+          <span>Checking names…</span>
+        ) : (
+          <span>
+            {report.errors.toLocaleString()} name(s) with errors, {report.warnings.toLocaleString()} with warnings
+            {report.checked < total && ` in the first ${report.checked.toLocaleString()} of ${total.toLocaleString()}`}
+            {report.errors > 0 && settings.blockExport && ". Export is blocked until the errors are fixed."}
+            {checking && " (checking the latest changes…)"}
+          </span>
+        )}
+      </div>
+
+      <table className="lint-rules">
+        <tbody>
+          {LINT_RULES.map(rule => (
+            <tr key={rule.id}>
+              <td>{rule.label}</td>
+              <td className="lint-count">{report.byRule[rule.id] > 0 ? report.byRule[rule.id].toLocaleString() : ''}</td>
+              <td>
+                <select
+                  className="term-select"
+                  value={settings.severity[rule.id]}
+                  onChange={e => update({ severity: { ...settings.severity, [rule.id]: e.target.value as LintSeverity } })}
+                >
+                  {SEVERITY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="export-form">
+        <label className="config-label">Allowed Characters</label>
+        <input
+          className="term-input"
+          value={settings.allowedCharacters}
+          onChange={e => update({ allowedCharacters: e.target.value })}
+          title="The inside of a regex character class, e.g. A-Za-z0-9_\-"
+        />
+        {invalidCharset && <span className="term-editor-error lint-setting-note">Not a valid character class; characters aren't checked.</span>}
+
+        <label className="config-label">Max Length</label>
+        <input
+          type="number"
+          min={0}
+          className="term-input"
+          value={settings.maxLength}
+          onChange={e => update({ maxLength: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          title="0 for no limit"
+        />
+
+        <label className="config-label">Reserved Names</label>
+        {/* Applied on blur, so separators can be typed; the key picks up undo and reset */}
+        <textarea
+          key={settings.reservedWords.join(',')}
+          className="term-input lint-reserved"
+          defaultValue={settings.reservedWords.join(', ')}
+          onBlur={e => update({ reservedWords: e.target.value.split(/[,\s]+/).filter(Boolean) })}
+          title="Names that can't be used before the first dot, separated by commas; matched case-insensitively"
+        />
+
+        <label className="export-check">
+          <input type="checkbox" checked={settings.blockExport} onChange={e => update({ blockExport: e.target.checked })} />
+          Block export while any name has an error
+        </label>
+        {total > LINT_SCAN_LIMIT && settings.severity.duplicates !== 'off' && (
+          <span className="lint-export-note">
+            Exports check every name, but only look for duplicates of the first {LINT_SCAN_LIMIT.toLocaleString()}.
+          </span>
+        )}
+      </div>
+
+      <div className="rename-controls">
+        <button className="action-btn" onClick={onReset}>Reset to Defaults</button>
+      </div>
+    </div>
+  );
+}
+
+export default LintPanel;
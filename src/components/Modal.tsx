@@ -0,0 +1,37 @@
+import type { ReactNode } from 'react';
+import { X } from 'lucide-react';
+
+interface ModalProps {
+  title: string;
+  onClose: () => void;
+  children: ReactNode;
+  footer?: ReactNode;
+  wide?: boolean;
+}
+
+function Modal({ title, onClose, children, footer, wide }: ModalProps) {
+  return (
+    <div className="modal-backdrop" onMouseDown={onClose}>
+      <div
+        className={`modal glass-panel ${wide ? 'wide' : ''}`}
+        role="dialog"
+        aria-label={title}
+        onMouseDown={e => e.stopPropagation()}
+        onKeyDown={e => {
+          if (e.key === 'Escape') onClose();
+        }}
+      >
+        <div className="modal-header">
+          <h2>{title}</h2>
+          <button className="icon-btn" onClick={onClose} title="Close">
+            <X size={18} />
+          </button>
+        </div>
+        <div className="modal-body">{children}</div>
+        {footer && <div className="modal-footer">{footer}</div>}
+      </div>
+    </div>
+  );
+}
+
+export default Modal;
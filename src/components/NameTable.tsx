@@ -0,0 +1,229 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ChangeEvent, MouseEvent, ReactNode } from 'react';
+import { Copy, Download, Search, X } from 'lucide-react';
+import { nameAt, permutationAt } from '../core/engine.ts';
+import type { PermutationSpace } from '../core/engine.ts';
+import { EMPTY_NAME_FILTER, NAME_STATUSES, TABLE_SCAN_LIMIT, countStatuses, filterNames, isFiltering, nameStatus } from '../core/nameTable.ts';
+import type { AssetStatuses, FilteredNames, NameFilter, NameStatus, StatusCounts } from '../core/nameTable.ts';
+import VirtualList from './VirtualList.tsx';
+
+interface NameTableProps {
+  space: PermutationSpace;
+  // Slot keys of the space's template, one column each
+  keys: string[];
+  // Existing assets, or null when no list has been given
+  statuses: AssetStatuses | null;
+  renderName: (index: number) => ReactNode;
+  disabled: boolean;
+  // Why the selection can't be exported, if it can't
+  exportBlockedReason: string | null;
+  onCopy: (rows: number[], button: HTMLButtonElement) => void;
+  onExport: (rows: number[]) => void;
+}
+
+const ROW_HEIGHT = 22;
+
+// Select value for "no filter"; real values are prefixed with "=" so an empty value can be picked
+const ANY = "";
+
+const STATUS_LABELS = Object.fromEntries(NAME_STATUSES.map(s => [s.id, s.label])) as Record<NameStatus, string>;
+
+// A selection only holds for the names it was made in
+type Selection = { space: PermutationSpace; rows: Set<number>; anchor: number | null };
+
+function NameTable({ space, keys, statuses, renderName, disabled, exportBlockedReason, onCopy, onExport }: NameTableProps) {
+  const [filter, setFilter] = useState<NameFilter>(EMPTY_NAME_FILTER);
+  const [selection, setSelection] = useState<Selection>({ space, rows: new Set(), anchor: null });
+
+  // Filtering and counting scan up to TABLE_SCAN_LIMIT names in chunks; the last result
+  // stays up while the next one runs. A result only holds for the names it was made in.
+  const filtering = isFiltering(filter);
+  const [filterScan, setFilterScan] = useState<{ space: PermutationSpace; filter: NameFilter; result: FilteredNames } | null>(null);
+  const [statusScan, setStatusScan] = useState<{ space: PermutationSpace; counts: StatusCounts } | null>(null);
+
+  useEffect(() => {
+    if (!filtering) return;
+    const controller = new AbortController();
+    filterNames(space, keys, filter, statuses, { signal: controller.signal })
+      .then(result => setFilterScan({ space, filter, result }))
+      .catch(err => {
+        if (!controller.signal.aborted) console.error("Filtering names failed", err);
+      });
+    return () => controller.abort();
+  }, [filtering, space, keys, filter, statuses]);
+
+  useEffect(() => {
+    if (!statuses) return;
+    const controller = new AbortController();
+    countStatuses(space, statuses, { signal: controller.signal })
+      .then(counts => setStatusScan({ space, counts }))
+      .catch(err => {
+        if (!controller.signal.aborted) console.error("Counting name statuses failed", err);
+      });
+    return () => controller.abort();
+  }, [space, statuses]);
+
+  const filtered = filtering && filterScan?.space === space ? filterScan.result : null;
+  const isFilterCurrent = filtered !== null && filterScan?.filter === filter;
+  const statusCounts = statuses ? statusScan : null;
+
+  const count = filtered ? filtered.rows.length : space.total;
+  const indexAt = (position: number) => filtered ? filtered.rows[position] : position;
+  const selected = selection.space === space ? selection.rows : new Set<number>();
+  const selectedRows = () => [...selected].sort((a, b) => a - b);
+  const canSelectAll = count > 0 && count <= TABLE_SCAN_LIMIT;
+  const allSelected = canSelectAll && selected.size === count;
+
+  const columnValues = useMemo(() => space.slots.map(values => [...new Set(values)]), [space]);
+  const gridColumns = [
+    '28px',
+    ...keys.map(() => 'minmax(60px, 1fr)'),
+    'minmax(160px, 2fr)',
+    ...(statuses ? ['100px'] : [])
+  ].join(' ');
+
+  // --- Filters ---
+
+  const handleColumnFilter = (key: string, value: string) => {
+    setFilter(prev => {
+      const columns = { ...prev.columns };
+      if (value === ANY) delete columns[key];
+      else columns[key] = value.slice(1);
+      return { ...prev, columns };
+    });
+  };
+
+  // --- Selection ---
+
+  const handleToggleRow = (position: number, e: MouseEvent<HTMLInputElement>) => {
+    const rows = new Set(selected);
+    const index = indexAt(position);
+    const select = !rows.has(index);
+    // Shift-click extends from the last clicked row
+    const anchor = selection.space === space ? selection.anchor : null;
+    const [from, to] = e.shiftKey && anchor !== null && anchor < count
+      ? [Math.min(anchor, position), Math.max(anchor, position)]
+      : [position, position];
+    for (let p = from; p <= to; p++) {
+      if (select) rows.add(indexAt(p));
+      else rows.delete(indexAt(p));
+    }
+    setSelection({ space, rows, anchor: position });
+  };
+
+  const handleToggleAll = (e: ChangeEvent<HTMLInputElement>) => {
+    const rows = new Set<number>();
+    if (e.target.checked) for (let p = 0; p < count; p++) rows.add(indexAt(p));
+    setSelection({ space, rows, anchor: null });
+  };
+
+  const renderRow = (position: number) => {
+    const index = indexAt(position);
+    const values = permutationAt(space, index);
+    const status = statuses ? nameStatus(statuses, nameAt(space, index)) : null;
+    return (
+      <div className={`name-table-row ${selected.has(index) ? 'selected' : ''}`} style={{ gridTemplateColumns: gridColumns }}>
+        <input type="checkbox" checked={selected.has(index)} onClick={e => handleToggleRow(position, e)} readOnly />
+        {values.map((value, c) => <span key={c} className="name-table-cell term">{value}</span>)}
+        <span className="name-table-cell">{renderName(index)}</span>
+        {status && <span className={`name-status ${status}`}>{STATUS_LABELS[status]}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="name-table">
+      <div className="name-table-toolbar">
+        <div className="name-table-search">
+          <Search size={14} />
+          <input
+            className="term-input"
+            placeholder="Filter names..."
+            value={filter.text}
+            onChange={e => setFilter(prev => ({ ...prev, text: e.target.value }))}
+          />
+        </div>
+        {isFiltering(filter) && (
+          <button className="action-btn" onClick={() => setFilter(EMPTY_NAME_FILTER)} title="Clear all filters">
+            <X size={14} /> Clear Filters
+          </button>
+        )}
+        {filtering && (
+          <span className="name-table-note">
+            {filtered ? `${filtered.rows.length.toLocaleString()} matching` : "Filtering…"}
+            {filtered && filtered.scanned < space.total && ` in the first ${filtered.scanned.toLocaleString()} names`}
+            {filtered && !isFilterCurrent && " (filtering…)"}
+          </span>
+        )}
+        {statusCounts && (
+          <span className="name-table-note">
+            {NAME_STATUSES.map(s => (
+              <span key={s.id} className={`name-status-count ${s.id}`}>{s.label} {statusCounts.counts[s.id].toLocaleString()}</span>
+            ))}
+            {statusCounts.space.total > TABLE_SCAN_LIMIT && ` (first ${TABLE_SCAN_LIMIT.toLocaleString()})`}
+          </span>
+        )}
+        {selected.size > 0 && (
+          <div className="name-table-selection">
+            <span className="name-table-note">{selected.size.toLocaleString()} selected</span>
+            <button className="action-btn" disabled={disabled} onClick={e => onCopy(selectedRows(), e.currentTarget)}>
+              <Copy size={14} /> Copy Selected
+            </button>
+            <button
+              className="action-btn"
+              disabled={disabled || !!exportBlockedReason}
+              onClick={() => onExport(selectedRows())}
+              title={exportBlockedReason ?? undefined}
+            >
+              <Download size={14} /> Export Selected...
+            </button>
+            <button className="icon-btn" onClick={() => setSelection({ space, rows: new Set(), anchor: null })} title="Clear selection">
+              <X size={14} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="name-table-header" style={{ gridTemplateColumns: gridColumns }}>
+        <input
+          type="checkbox"
+          checked={allSelected}
+          disabled={!canSelectAll}
+          onChange={handleToggleAll}
+          title={canSelectAll ? "Select every name shown" : `Filter down to ${TABLE_SCAN_LIMIT.toLocaleString()} names or fewer to select them all`}
+        />
+        {keys.map((key, c) => (
+          <label key={key} className="name-table-column">
+            <span>{key}</span>
+            <select
+              className="term-select"
+              value={filter.columns[key] !== undefined ? `=${filter.columns[key]}` : ANY}
+              onChange={e => handleColumnFilter(key, e.target.value)}
+            >
+              <option value={ANY}>All</option>
+              {columnValues[c]?.map(value => <option key={value} value={`=${value}`}>{value || "(none)"}</option>)}
+            </select>
+          </label>
+        ))}
+        <span className="name-table-column"><span>Name</span></span>
+        {statuses && (
+          <label className="name-table-column">
+            <span>Status</span>
+            <select
+              className="term-select"
+              value={filter.status ?? ANY}
+              onChange={e => setFilter(prev => ({ ...prev, status: e.target.value === ANY ? null : e.target.value as NameStatus }))}
+            >
+              <option value={ANY}>All</option>
+              {NAME_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <VirtualList className="permutations-list name-table-body" count={count} rowHeight={ROW_HEIGHT} renderRow={renderRow} />
+    </div>
+  );
+}
+
+export default NameTable;
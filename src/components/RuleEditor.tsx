@@ -0,0 +1,124 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { CompatibilityRule, ElementDef, TermCondition } from '../core/types.ts';
+import { describeRule } from '../core/rules.ts';
+import { termTokens } from '../core/terms.ts';
+
+interface RuleEditorProps {
+  rules: CompatibilityRule[];
+  elements: Record<string, ElementDef>;
+  templateElements: string[];
+  removals: number[];
+  onChange: (rules: CompatibilityRule[]) => void;
+}
+
+interface ConditionEditorProps {
+  condition: TermCondition;
+  elements: Record<string, ElementDef>;
+  emptyHint?: string;
+  onChange: (condition: TermCondition) => void;
+}
+
+function ConditionEditor({ condition, elements, emptyHint, onChange }: ConditionEditorProps) {
+  const terms = termTokens(elements[condition.element]);
+  const toggleTerm = (term: string) => {
+    const selected = condition.terms.includes(term)
+      ? condition.terms.filter(t => t !== term)
+      : terms.filter(t => t === term || condition.terms.includes(t));
+    onChange({ ...condition, terms: selected });
+  };
+
+  return (
+    <div className="rule-condition">
+      <select
+        className="term-select"
+        value={condition.element}
+        onChange={e => onChange({ element: e.target.value, terms: [] })}
+      >
+        {Object.keys(elements).map(el => (
+          <option key={el} value={el}>{el}</option>
+        ))}
+      </select>
+      <div className="element-terms">
+        {terms.map(t => (
+          <button
+            key={t}
+            className={`term-chip ${condition.terms.includes(t) ? 'active' : ''}`}
+            onClick={() => toggleTerm(t)}
+          >
+            {t}
+          </button>
+        ))}
+        {condition.terms.length === 0 && emptyHint && <span className="rule-hint">{emptyHint}</span>}
+      </div>
+    </div>
+  );
+}
+
+function RuleEditor({ rules, elements, templateElements, removals, onChange }: RuleEditorProps) {
+  const updateRule = (index: number, rule: CompatibilityRule) => {
+    onChange(rules.map((r, i) => i === index ? rule : r));
+  };
+
+  const handleAddRule = () => {
+    const [first = "", second = first] = templateElements.length > 0 ? templateElements : Object.keys(elements);
+    onChange([
+      ...rules,
+      { when: { element: first, terms: [] }, effect: 'require', then: { element: second, terms: [] } }
+    ]);
+  };
+
+  return (
+    <div className="rule-editor">
+      {rules.length === 0 && (
+        <p className="modal-text">
+          No rules yet. Rules remove combinations that should never be generated,
+          e.g. "if Sound Type is VO then Action must be Jump or Land".
+        </p>
+      )}
+
+      {rules.map((rule, i) => (
+        <div key={i} className="rule-card">
+          <div className="rule-card-header">
+            <span className="rule-summary">{describeRule(rule)}</span>
+            <span className="rule-removed" title="Combinations removed by this rule">
+              −{(removals[i] || 0).toLocaleString()}
+            </span>
+            <button className="icon-btn" onClick={() => onChange(rules.filter((_, j) => j !== i))} title="Delete rule">
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <div className="rule-row">
+            <span className="rule-keyword">If</span>
+            <ConditionEditor
+              condition={rule.when}
+              elements={elements}
+              onChange={when => updateRule(i, { ...rule, when })}
+            />
+          </div>
+          <div className="rule-row">
+            <select
+              className="term-select rule-keyword-select"
+              value={rule.effect}
+              onChange={e => updateRule(i, { ...rule, effect: e.target.value as CompatibilityRule['effect'] })}
+            >
+              <option value="require">then only</option>
+              <option value="exclude">then never</option>
+            </select>
+            <ConditionEditor
+              condition={rule.then}
+              elements={elements}
+              emptyHint={rule.effect === 'exclude' ? "No terms picked: names the rule applies to leave the element out" : undefined}
+              onChange={then => updateRule(i, { ...rule, then })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <button className="action-btn rule-add-btn" onClick={handleAddRule}>
+        <Plus size={14} /> Add Rule
+      </button>
+    </div>
+  );
+}
+
+export default RuleEditor;
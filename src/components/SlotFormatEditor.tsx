@@ -0,0 +1,76 @@
+import type { CaseStyle, SlotFormat } from '../core/types.ts';
+
+interface SlotFormatEditorProps {
+  format: SlotFormat;
+  onChange: (format: SlotFormat) => void;
+}
+
+const CASE_OPTIONS: { value: CaseStyle; label: string }[] = [
+  { value: 'upper', label: 'UPPER' },
+  { value: 'lower', label: 'lower' },
+  { value: 'pascal', label: 'PascalCase' },
+  { value: 'camel', label: 'camelCase' }
+];
+
+function SlotFormatEditor({ format, onChange }: SlotFormatEditorProps) {
+  const update = (changes: Partial<SlotFormat>) => onChange({ ...format, ...changes });
+
+  return (
+    <div className="slot-format-editor">
+      <label className="slot-format-field">
+        <span>Case</span>
+        <select
+          className="term-select"
+          value={format.case || ""}
+          onChange={e => update({ case: (e.target.value || undefined) as CaseStyle | undefined })}
+        >
+          <option value="">As typed</option>
+          {CASE_OPTIONS.map(c => (
+            <option key={c.value} value={c.value}>{c.label}</option>
+          ))}
+        </select>
+      </label>
+      <div className="slot-format-pair">
+        <label className="slot-format-field">
+          <span>Prefix</span>
+          <input
+            type="text"
+            className="term-input"
+            value={format.prefix || ""}
+            onChange={e => update({ prefix: e.target.value || undefined })}
+          />
+        </label>
+        <label className="slot-format-field">
+          <span>Suffix</span>
+          <input
+            type="text"
+            className="term-input"
+            value={format.suffix || ""}
+            onChange={e => update({ suffix: e.target.value || undefined })}
+          />
+        </label>
+      </div>
+      <label className="slot-format-field">
+        <span>Max length</span>
+        <input
+          type="number"
+          min={0}
+          className="term-input"
+          value={format.maxLength ?? ""}
+          placeholder="No limit"
+          onChange={e => update({ maxLength: e.target.value ? Math.max(0, parseInt(e.target.value, 10)) : undefined })}
+        />
+      </label>
+      <label className="slot-format-check">
+        <input
+          type="checkbox"
+          checked={!!format.stripWhitespace}
+          onChange={e => update({ stripWhitespace: e.target.checked || undefined })}
+        />
+        Strip whitespace
+      </label>
+    </div>
+  );
+}
+
+export default SlotFormatEditor;
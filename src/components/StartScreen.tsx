@@ -0,0 +1,93 @@
+import type { ChangeEvent, MouseEvent } from 'react';
+import { FileClock, FolderOpen, Sparkles, Trash2, Upload, X } from 'lucide-react';
+import { hasUnsavedChanges } from '../session.ts';
+import type { RecentProject, Session } from '../session.ts';
+
+interface StartScreenProps {
+  // The autosaved session, offered for restoring on launch
+  session: Session | null;
+  recent: RecentProject[];
+  onRestore: (session: Session) => void;
+  onOpenRecent: (recent: RecentProject) => void;
+  onForgetRecent: (fileName: string) => void;
+  onBeforeOpenFile: (e: MouseEvent<HTMLInputElement>) => void;
+  onOpenFile: (e: ChangeEvent<HTMLInputElement>) => void;
+  onStartDemo: () => void;
+  // Only when opened from the editor, which it can go back to
+  onClose?: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+function StartScreen({
+  session,
+  recent,
+  onRestore,
+  onOpenRecent,
+  onForgetRecent,
+  onBeforeOpenFile,
+  onOpenFile,
+  onStartDemo,
+  onClose
+}: StartScreenProps) {
+  return (
+    <div className="start-screen">
+      <div className="start-panel glass-panel">
+        <div className="start-header">
+          <h1>Ludonomia</h1>
+          {onClose && (
+            <button className="icon-btn" onClick={onClose} title="Back to the project">
+              <X size={18} />
+            </button>
+          )}
+        </div>
+
+        {session && (
+          <div className={`start-session ${hasUnsavedChanges(session) ? 'unsaved' : ''}`}>
+            <div className="start-session-details">
+              <span className="start-item-name">{session.projectName}</span>
+              <span className="start-item-meta">
+                {hasUnsavedChanges(session) ? "Unsaved changes" : "Last session"}, autosaved {formatDate(session.savedAt)}
+                {session.fileName && ` · ${session.fileName}`}
+              </span>
+            </div>
+            <button className="action-btn" onClick={() => onRestore(session)}>
+              <FileClock size={14} /> {hasUnsavedChanges(session) ? "Restore" : "Continue"}
+            </button>
+          </div>
+        )}
+
+        <div className="start-actions">
+          <label className="load-project-btn" title="Load a .json project file">
+            <Upload size={16} /> Open Project...
+            <input type="file" accept=".json" onClick={onBeforeOpenFile} onChange={onOpenFile} style={{ display: 'none' }} />
+          </label>
+          <button className="load-project-btn" onClick={onStartDemo} title="Start from the Locomotion/Weapons example">
+            <Sparkles size={16} /> Demo Project
+          </button>
+        </div>
+
+        <span className="template-label">Recent Projects</span>
+        {recent.length === 0 && <p className="rename-empty">Projects you open or save show up here.</p>}
+        {recent.length > 0 && (
+          <ul className="start-recent">
+            {recent.map(r => (
+              <li key={r.fileName}>
+                <button className="start-recent-open" onClick={() => onOpenRecent(r)} title="Open the copy kept from when it was last opened or saved">
+                  <FolderOpen size={14} />
+                  <span className="start-item-name">{r.projectName}</span>
+                  <span className="start-item-meta">{r.fileName} · {formatDate(r.openedAt)}</span>
+                </button>
+                <button className="icon-btn" onClick={() => onForgetRecent(r.fileName)} title="Remove from the list">
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default StartScreen;
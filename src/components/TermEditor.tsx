@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import type { TermDef } from '../core/types.ts';
+import Modal from './Modal.tsx';
+
+interface TermEditorProps {
+  element: string;
+  term: TermDef;
+  // Tokens the element's other terms already use
+  takenTokens: string[];
+  onSave: (term: TermDef) => void;
+  onClose: () => void;
+}
+
+function TermEditor({ element, term, takenTokens, onSave, onClose }: TermEditorProps) {
+  const [token, setToken] = useState<string>(term.token);
+  const [label, setLabel] = useState<string>(term.label || "");
+  const [description, setDescription] = useState<string>(term.description || "");
+  const [aliases, setAliases] = useState<string>((term.aliases || []).join(', '));
+  const [deprecated, setDeprecated] = useState<boolean>(!!term.deprecated);
+
+  const trimmedToken = token.trim();
+  const tokenError = !trimmedToken
+    ? "The token cannot be empty."
+    : trimmedToken !== term.token && takenTokens.includes(trimmedToken)
+      ? `${element} already has a "${trimmedToken}" term.`
+      : null;
+
+  const handleSave = () => {
+    if (tokenError) return;
+    onSave({
+      token: trimmedToken,
+      label,
+      description,
+      aliases: aliases.split(',').map(a => a.trim()).filter(Boolean),
+      deprecated
+    });
+  };
+
+  return (
+    <Modal
+      title={`${element} Term`}
+      onClose={onClose}
+      footer={
+        <>
+          <button className="action-btn" onClick={onClose}>Cancel</button>
+          <button className="action-btn" onClick={handleSave} disabled={!!tokenError}>Save</button>
+        </>
+      }
+    >
+      <div className="term-editor">
+        <label className="config-label">Token</label>
+        <input
+          className="term-input"
+          value={token}
+          onChange={e => setToken(e.target.value)}
+          title="Text written into generated names"
+          autoFocus
+        />
+        {tokenError && <span className="term-editor-error">{tokenError}</span>}
+
+        <label className="config-label">Label</label>
+        <input
+          className="term-input"
+          value={label}
+          onChange={e => setLabel(e.target.value)}
+          placeholder={trimmedToken}
+          title="Name shown in the editor; the token is used when empty"
+        />
+
+        <label className="config-label">Description</label>
+        <textarea
+          className="term-input term-editor-description"
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          placeholder="Shown as a tooltip when picking the term..."
+        />
+
+        <label className="config-label">Aliases</label>
+        <input
+          className="term-input"
+          value={aliases}
+          onChange={e => setAliases(e.target.value)}
+          placeholder="E.g. Rocket, RL"
+          title="Other spellings accepted when validating existing names, separated by commas"
+        />
+
+        <label className="export-check">
+          <input type="checkbox" checked={deprecated} onChange={e => setDeprecated(e.target.checked)} />
+          Deprecated (still valid in existing names, but no longer generated)
+        </label>
+      </div>
+    </Modal>
+  );
+}
+
+export default TermEditor;
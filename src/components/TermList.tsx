@@ -0,0 +1,111 @@
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import type { DragEndEvent } from '@dnd-kit/core';
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  rectSortingStrategy,
+  useSortable,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { X } from 'lucide-react';
+import type { TermDef } from '../core/types.ts';
+import { termLabel } from '../core/terms.ts';
+
+interface TermListProps {
+  terms: TermDef[];
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onEdit: (token: string) => void;
+  onRemove: (token: string) => void;
+  // Terms that can't be changed here, like those from a shared library
+  isLocked?: (token: string) => boolean;
+}
+
+interface SortableTermProps {
+  term: TermDef;
+  locked: boolean;
+  onEdit: () => void;
+  onRemove: () => void;
+}
+
+function termTooltip(term: TermDef): string {
+  return [
+    term.label ? `${term.label} (${term.token})` : term.token,
+    term.description,
+    term.aliases?.length ? `Also accepts: ${term.aliases.join(', ')}` : undefined,
+    term.deprecated ? "Deprecated" : undefined
+  ].filter(Boolean).join('\n');
+}
+
+function SortableTerm({ term, locked, onEdit, onRemove }: SortableTermProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: term.token, disabled: locked });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    zIndex: isDragging ? 2 : 1,
+    opacity: isDragging ? 0.8 : 1,
+  };
+
+  return (
+    <span
+      ref={setNodeRef}
+      style={style}
+      className={`term-badge ${locked ? 'locked' : 'sortable'} ${term.deprecated ? 'deprecated' : ''}`}
+      title={locked ? `${termTooltip(term)}\nFrom a library (read-only)` : termTooltip(term)}
+      {...attributes}
+      {...listeners}
+    >
+      {locked ? (
+        <span className="term-badge-label">{termLabel(term)}</span>
+      ) : (
+        <>
+          <button className="term-badge-label" onClick={onEdit}>{termLabel(term)}</button>
+          <button onClick={onRemove} title={`Remove "${term.token}"`}><X size={12} /></button>
+        </>
+      )}
+    </span>
+  );
+}
+
+// An element's terms as badges that can be dragged into a new order. Clicking a term
+// opens it for editing.
+function TermList({ terms, onMove, onEdit, onRemove, isLocked }: TermListProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (over && active.id !== over.id) {
+      const tokens = terms.map(t => t.token);
+      onMove(tokens.indexOf(active.id as string), tokens.indexOf(over.id as string));
+    }
+  };
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+      <SortableContext items={terms.map(t => t.token)} strategy={rectSortingStrategy}>
+        <div className="element-terms">
+          {terms.map(term => (
+            <SortableTerm
+              key={term.token}
+              term={term}
+              locked={!!isLocked?.(term.token)}
+              onEdit={() => onEdit(term.token)}
+              onRemove={() => onRemove(term.token)}
+            />
+          ))}
+        </div>
+      </SortableContext>
+    </DndContext>
+  );
+}
+
+export default TermList;
@@ -0,0 +1,92 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import type { ConfigObj } from '../core/types.ts';
+import { matchNameSets, parseName } from '../core/parser.ts';
+
+interface ValidateNamesPanelProps {
+  config: ConfigObj;
+  defaultNameSet: string;
+}
+
+const ANY_NAMESET = "";
+
+function ValidateNamesPanel({ config, defaultNameSet }: ValidateNamesPanelProps) {
+  const [input, setInput] = useState<string>("");
+  const [nameSet, setNameSet] = useState<string>(defaultNameSet);
+
+  const results = useMemo(() => {
+    const lines = input.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+    return lines.map(line => nameSet === ANY_NAMESET
+      ? matchNameSets(config, line)[0] ?? parseName(config, nameSet, line)
+      : parseName(config, nameSet, line));
+  }, [input, nameSet, config]);
+
+  const passCount = results.filter(r => r.valid).length;
+  const warnCount = results.filter(r => r.valid && r.warnings.length > 0).length;
+
+  return (
+    <div className="validate-panel">
+      <div className="validate-controls">
+        <label className="config-label">Check against</label>
+        <select className="term-select" value={nameSet} onChange={e => setNameSet(e.target.value)}>
+          <option value={ANY_NAMESET}>Any NameSet</option>
+          {Object.keys(config.nameSets).map(ns => (
+            <option key={ns} value={ns}>{ns}</option>
+          ))}
+        </select>
+        {results.length > 0 && (
+          <span className="validate-summary">
+            <span className="pass">{passCount} pass</span>
+            {warnCount > 0 && <> (<span className="warn">{warnCount} with warnings</span>)</>}
+            {' · '}<span className="fail">{results.length - passCount} fail</span>
+          </span>
+        )}
+      </div>
+
+      <textarea
+        className="validate-input"
+        placeholder="Paste filenames, one per line..."
+        value={input}
+        onChange={e => setInput(e.target.value)}
+      />
+
+      {results.length > 0 && (
+        <ul className="validate-results">
+          {results.map((r, i) => (
+            <li key={i} className={`validate-result ${r.valid ? (r.warnings.length > 0 ? 'warn' : 'pass') : 'fail'}`}>
+              <div className="validate-result-header">
+                {!r.valid ? <XCircle size={14} /> : r.warnings.length > 0 ? <AlertTriangle size={14} /> : <CheckCircle2 size={14} />}
+                <code>{r.name}</code>
+                <span className="validate-nameset">{r.nameSet}</span>
+              </div>
+              <div className="validate-tokens">
+                {r.tokens.map((t, j) => (
+                  <span
+                    key={j}
+                    className={`validate-token ${t.term === null ? 'invalid' : ''}`}
+                    title={t.element ? `${t.element}${t.term && t.term !== t.token ? ` (${t.term})` : ''}` : 'Not part of the template'}
+                  >
+                    {t.token}
+                  </span>
+                ))}
+                {r.variation !== undefined && <span className="validate-token variation">#{r.variation}</span>}
+              </div>
+              {(r.issues.length > 0 || r.warnings.length > 0) && (
+                <ul className="validate-issues">
+                  {r.issues.map((issue, j) => (
+                    <li key={j}>{issue.message}</li>
+                  ))}
+                  {r.warnings.map((warning, j) => (
+                    <li key={`w${j}`} className="warning">{warning.message}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ValidateNamesPanel;
@@ -0,0 +1,71 @@
+import type { VariationDef } from '../core/types.ts';
+
+interface VariationEditorProps {
+  variations: VariationDef | undefined;
+  onChange: (variations: VariationDef | undefined) => void;
+}
+
+const DEFAULT_VARIATIONS: VariationDef = { start: 1, count: 8, padding: 2, separator: "_" };
+
+function VariationEditor({ variations, onChange }: VariationEditorProps) {
+  const update = (changes: Partial<VariationDef>) => {
+    if (variations) onChange({ ...variations, ...changes });
+  };
+  const toNumber = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+  return (
+    <div className="variation-editor">
+      <input
+        type="checkbox"
+        checked={!!variations}
+        onChange={e => onChange(e.target.checked ? DEFAULT_VARIATIONS : undefined)}
+        title="Append numbered variations to every name"
+      />
+      {variations && (
+        <>
+          <label title="Number of variations">
+            <span>×</span>
+            <input
+              type="number"
+              min={1}
+              className="term-input"
+              value={variations.count}
+              onChange={e => update({ count: toNumber(e.target.value) })}
+            />
+          </label>
+          <label title="First variation number">
+            <span>from</span>
+            <input
+              type="number"
+              min={0}
+              className="term-input"
+              value={variations.start}
+              onChange={e => update({ start: toNumber(e.target.value) })}
+            />
+          </label>
+          <label title="Zero-pad to this many digits">
+            <span>pad</span>
+            <input
+              type="number"
+              min={0}
+              className="term-input"
+              value={variations.padding}
+              onChange={e => update({ padding: toNumber(e.target.value) })}
+            />
+          </label>
+          <label title="Separator before the number">
+            <span>sep</span>
+            <input
+              type="text"
+              className="term-input variation-separator"
+              value={variations.separator}
+              onChange={e => update({ separator: e.target.value })}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default VariationEditor;
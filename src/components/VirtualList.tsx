@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+
+interface VirtualListProps {
+  count: number;
+  rowHeight: number;
+  renderRow: (index: number) => ReactNode;
+  className?: string;
+  overscan?: number;
+}
+
+// Browsers cap how tall an element can be, so very long lists scroll through a
+// spacer of at most this height and map the scroll position onto row indexes.
+const MAX_SCROLL_HEIGHT = 8_000_000;
+
+function VirtualList({ count, rowHeight, renderRow, className, overscan = 10 }: VirtualListProps) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const node = containerRef.current;
+    if (!node) return;
+    const observer = new ResizeObserver(() => setViewportHeight(node.clientHeight));
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, []);
+
+  const fullHeight = count * rowHeight;
+  const spacerHeight = Math.min(fullHeight, MAX_SCROLL_HEIGHT);
+  const visibleRows = Math.ceil(viewportHeight / rowHeight) + 1;
+
+  // Fraction of the way through the list, applied to row indexes rather than pixels
+  const maxScroll = Math.max(spacerHeight - viewportHeight, 1);
+  const maxFirstRow = Math.max(count - visibleRows + 1, 0);
+  const firstRow = fullHeight > MAX_SCROLL_HEIGHT
+    ? Math.floor(Math.min(scrollTop / maxScroll, 1) * maxFirstRow)
+    : Math.floor(scrollTop / rowHeight);
+  // Pixel offset of the first row inside the spacer
+  const offset = fullHeight > MAX_SCROLL_HEIGHT ? scrollTop - (scrollTop % rowHeight) : firstRow * rowHeight;
+
+  const start = Math.max(firstRow - overscan, 0);
+  const end = Math.min(firstRow + visibleRows + overscan, count);
+  const rows: ReactNode[] = [];
+  for (let i = start; i < end; i++) {
+    rows.push(
+      <div key={i} className="virtual-row" style={{ height: rowHeight, top: offset + (i - firstRow) * rowHeight }}>
+        {renderRow(i)}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`virtual-list ${className || ''}`}
+      ref={containerRef}
+      onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="virtual-spacer" style={{ height: spacerHeight }}>
+        {rows}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
@@ -0,0 +1,104 @@
+import type { CoverageSnapshot } from './types.ts';
+import { iteratePermutations, joinName, variationAt } from './engine.ts';
+import type { PermutationSpace } from './engine.ts';
+import { baseName } from './parser.ts';
+
+// --- Asset Coverage ---
+// Compares the names a NameSet expects against the files actually delivered: how many
+// exist, which are missing, which files match no expected name, and how each term of
+// each slot is doing. Names are compared without folder, extension or case.
+
+export const COVERAGE_SCAN_LIMIT = 500_000;
+
+export type TermCoverage = {
+  // The raw term, or null for an omitted optional slot
+  term: string | null;
+  delivered: number;
+  expected: number;
+};
+
+export type SlotCoverage = {
+  key: string;
+  terms: TermCoverage[];
+};
+
+export type CoverageReport = {
+  // Names checked, at most COVERAGE_SCAN_LIMIT
+  expected: number;
+  delivered: number;
+  // Delivered files matching none of the checked names, one per name
+  unexpected: string[];
+  slots: SlotCoverage[];
+  // Whether the NameSet has more names than were checked
+  truncated: boolean;
+};
+
+// Delivered files by lowercased name, keeping the first spelling of each.
+export function deliveredNames(files: string[]): Map<string, string> {
+  const names = new Map<string, string>();
+  files.forEach(file => {
+    const name = baseName(file);
+    if (name && !names.has(name.toLowerCase())) names.set(name.toLowerCase(), file.trim());
+  });
+  return names;
+}
+
+// `keys` are the slot keys of the space's template.
+export function coverageReport(space: PermutationSpace, keys: string[], files: string[], limit = COVERAGE_SCAN_LIMIT): CoverageReport {
+  const delivered = deliveredNames(files);
+  const matched = new Set<string>();
+  const expected = Math.min(space.total, limit);
+
+  // Each slot value's position among its slot's distinct terms
+  const slotTerms = space.terms.map(terms => [...new Set(terms)]);
+  const termIndex = space.slots.map((values, slot) =>
+    new Map(values.map((value, d) => [value, slotTerms[slot].indexOf(space.terms[slot][d])])));
+  const counts = slotTerms.map(terms => terms.map(() => ({ delivered: 0, expected: 0 })));
+
+  let index = 0;
+  for (const values of iteratePermutations(space, 0, expected)) {
+    const key = (joinName(values, space.delimiter) + variationAt(space, index++)).toLowerCase();
+    const isDelivered = delivered.has(key);
+    if (isDelivered) matched.add(key);
+    values.forEach((value, slot) => {
+      const count = counts[slot][termIndex[slot].get(value) ?? 0];
+      count.expected++;
+      if (isDelivered) count.delivered++;
+    });
+  }
+
+  return {
+    expected,
+    delivered: matched.size,
+    unexpected: [...delivered].filter(([key]) => !matched.has(key)).map(([, file]) => file),
+    slots: keys.map((key, slot) => ({
+      key,
+      terms: slotTerms[slot].map((term, t) => ({ term, ...counts[slot][t] }))
+    })),
+    truncated: space.total > limit
+  };
+}
+
+// The expected names that haven't been delivered, in order.
+export function* missingNames(space: PermutationSpace, files: string[], limit = COVERAGE_SCAN_LIMIT): Generator<string> {
+  const delivered = deliveredNames(files);
+  let index = 0;
+  for (const values of iteratePermutations(space, 0, Math.min(space.total, limit))) {
+    const name = joinName(values, space.delimiter) + variationAt(space, index++);
+    if (!delivered.has(name.toLowerCase())) yield name;
+  }
+}
+
+export function coverageSnapshot(report: CoverageReport, source: string, date = new Date()): CoverageSnapshot {
+  return {
+    date: date.toISOString(),
+    expected: report.expected,
+    delivered: report.delivered,
+    unexpected: report.unexpected.length,
+    source
+  };
+}
+
+export function coveragePercent(delivered: number, expected: number): number {
+  return expected === 0 ? 0 : Math.round((delivered / expected) * 1000) / 10;
+}
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import type { ConfigObj, NameSetDef, TemplateEntry } from './types.ts';
+import { toTerms } from './terms.ts';
+import {
+  assignmentAt,
+  composeName,
+  countPermutations,
+  createPermutationSpace,
+  generateNames,
+  iterateAssignments,
+  iterateNames,
+  nameAt,
+  nameSetSpace
+} from './engine.ts';
+
+function project(elements: Record<string, string[]>, nameSets: Record<string, Partial<NameSetDef>> = {}): ConfigObj {
+  return {
+    project_name: "Test",
+    elements: Object.fromEntries(Object.entries(elements).map(([name, tokens]) => [name, { terms: toTerms(tokens) }])),
+    nameSets: Object.fromEntries(Object.entries(nameSets).map(([id, ns]) => [id, { template: [], delimiter: "_", ...ns }]))
+  };
+}
+
+const config = project(
+  {
+    SoundType: ["SFX"],
+    Action: ["Walk", "Run"],
+    Surface: ["Dirt", "Metal", "Water"],
+    Empty: []
+  },
+  {
+    Locomotion: { template: ["SoundType", "Action", "Surface"] },
+    Dashed: { template: ["SoundType", "Action"], delimiter: "-" },
+    Joined: { template: ["Action", "Surface"], delimiter: "" },
+    WithEmpty: { template: ["Action", "Empty"] }
+  }
+);
+
+describe('generateNames', () => {
+  it('varies the last slot fastest, in term order', () => {
+    expect(generateNames(config, "Locomotion")).toEqual([
+      "SFX_Walk_Dirt",
+      "SFX_Walk_Metal",
+      "SFX_Walk_Water",
+      "SFX_Run_Dirt",
+      "SFX_Run_Metal",
+      "SFX_Run_Water"
+    ]);
+  });
+
+  it('follows a template override instead of the saved order', () => {
+    expect(generateNames(config, "Locomotion", { template: ["Surface", "Action"] })).toEqual([
+      "Dirt_Walk",
+      "Dirt_Run",
+      "Metal_Walk",
+      "Metal_Run",
+      "Water_Walk",
+      "Water_Run"
+    ]);
+  });
+
+  it("joins slots with the NameSet's delimiter", () => {
+    expect(generateNames(config, "Dashed")).toEqual(["SFX-Walk", "SFX-Run"]);
+  });
+
+  it('joins slots directly with an empty delimiter', () => {
+    expect(generateNames(config, "Joined").slice(0, 2)).toEqual(["WalkDirt", "WalkMetal"]);
+  });
+
+  it('emits a placeholder for an element with no terms', () => {
+    expect(generateNames(config, "WithEmpty")).toEqual(["Walk_{Empty}", "Run_{Empty}"]);
+  });
+
+  it('emits a placeholder for an element missing from the project', () => {
+    expect(generateNames(config, "Locomotion", { template: ["Action", "Missing"] })).toEqual(["Walk_{Missing}", "Run_{Missing}"]);
+  });
+
+  it('generates nothing for an empty template or unknown NameSet', () => {
+    expect(generateNames(config, "Locomotion", { template: [] })).toEqual([]);
+    expect(generateNames(config, "Nope")).toEqual([]);
+  });
+});
+
+describe('generation limits', () => {
+  // 10 × 10 × 10 × 20 = 20,000 names, past the 10,000 names the editor used to cap at
+  const big = project(
+    {
+      A: Array.from({ length: 10 }, (_, i) => `A${i}`),
+      B: Array.from({ length: 10 }, (_, i) => `B${i}`),
+      C: Array.from({ length: 10 }, (_, i) => `C${i}`),
+      D: Array.from({ length: 20 }, (_, i) => `D${i}`)
+    },
+    { Big: { template: ["A", "B", "C", "D"] } }
+  );
+
+  it('stops at the given limit', () => {
+    const names = generateNames(big, "Big", { limit: 10_000 });
+    expect(names).toHaveLength(10_000);
+    expect(names[9_999]).toBe("A4_B9_C9_D19");
+  });
+
+  it('returns every name when the limit is above the total', () => {
+    expect(generateNames(config, "Locomotion", { limit: 10_000 })).toHaveLength(6);
+  });
+
+  it('counts and addresses names past the limit without generating them', () => {
+    const space = nameSetSpace(big, "Big");
+    expect(space.total).toBe(20_000);
+    expect(countPermutations(big, ["A", "B", "C", "D"])).toBe(20_000);
+    expect(nameAt(space, 10_000)).toBe("A5_B0_C0_D0");
+    expect(nameAt(space, 19_999)).toBe("A9_B9_C9_D19");
+  });
+});
+
+describe('nameAt and iterateNames', () => {
+  const space = nameSetSpace(config, "Locomotion");
+
+  it('agree with the generated list', () => {
+    const names = generateNames(config, "Locomotion");
+    expect(names.map((_, i) => nameAt(space, i))).toEqual(names);
+    expect([...iterateNames(space)]).toEqual(names);
+  });
+
+  it('iterate a range from the middle', () => {
+    expect([...iterateNames(space, 2, 4)]).toEqual(["SFX_Walk_Water", "SFX_Run_Dirt"]);
+  });
+
+  it('skip omitted optional slots without a doubled delimiter', () => {
+    const template: TemplateEntry[] = ["Action", { element: "Surface", mode: 'optional' }, "SoundType"];
+    const optional = createPermutationSpace(config, template);
+    expect([...iterateNames(optional, 0, 4)]).toEqual(["Walk_SFX", "Walk_Dirt_SFX", "Walk_Metal_SFX", "Walk_Water_SFX"]);
+  });
+
+  it('append numbered variations to each combination', () => {
+    const varied = createPermutationSpace(config, ["Action"], { variations: { start: 1, count: 2, padding: 2, separator: "_" } });
+    expect(varied.total).toBe(4);
+    expect([...iterateNames(varied)]).toEqual(["Walk_01", "Walk_02", "Run_01", "Run_02"]);
+    expect(nameAt(varied, 3)).toBe("Run_02");
+  });
+
+  it('skip combinations removed by rules', () => {
+    const ruled = createPermutationSpace(config, ["Action", "Surface"], {
+      rules: [{ when: { element: "Action", terms: ["Run"] }, effect: 'exclude', then: { element: "Surface", terms: ["Water"] } }]
+    });
+    const names = ["Walk_Dirt", "Walk_Metal", "Walk_Water", "Run_Dirt", "Run_Metal"];
+    expect(ruled.total).toBe(5);
+    expect([...iterateNames(ruled)]).toEqual(names);
+    expect(names.map((_, i) => nameAt(ruled, i))).toEqual(names);
+  });
+
+  it('walk the terms behind each name in order', () => {
+    const space = createPermutationSpace(config, ["Action", { element: "Surface", mode: 'optional' }], {
+      rules: [{ when: { element: "Action", terms: ["Run"] }, effect: 'exclude', then: { element: "Surface", terms: ["Water"] } }],
+      variations: { start: 1, count: 2, padding: 2, separator: "_" }
+    });
+    const rows = [...iterateAssignments(space, 3, space.total)];
+    expect(rows.map(row => row.assignment)).toEqual(
+      Array.from({ length: space.total - 3 }, (_, i) => assignmentAt(space, i + 3))
+    );
+    expect(rows[0]).toEqual({ values: ["Walk", "Dirt"], assignment: ["Walk", "Dirt"] });
+  });
+});
+
+describe('composeName', () => {
+  const nameSet = config.nameSets.Locomotion;
+
+  it('joins the selected terms in template order', () => {
+    expect(composeName(nameSet, { SoundType: "SFX", Action: "Run", Surface: "Metal" })).toBe("SFX_Run_Metal");
+  });
+
+  it('shows a placeholder for a slot without a selection', () => {
+    expect(composeName(nameSet, { SoundType: "SFX", Surface: "Metal" })).toBe("SFX_{Action}_Metal");
+  });
+
+  it('uses the delimiter of the NameSet', () => {
+    expect(composeName(config.nameSets.Joined, { Action: "Walk", Surface: "Dirt" })).toBe("WalkDirt");
+  });
+});
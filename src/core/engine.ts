@@ -0,0 +1,402 @@
+import type { CompatibilityRule, ConfigObj, NameSetDef, TemplateEntry, VariationDef } from './types.ts';
+import { formatTerm } from './format.ts';
+import { isOmittedByRules, omitsElement, ruleElements, violatesAnyRule, violatesRule } from './rules.ts';
+import type { SlotAssignment } from './rules.ts';
+import { slotElement, slotKeys, toSlot } from './template.ts';
+import { activeTokens, termTokens } from './terms.ts';
+
+// --- Naming Engine ---
+// Headless naming logic shared by the editor and any tooling that reads a project file.
+
+export const DEFAULT_DELIMITER = "_";
+
+// Value of an optional slot that has been left out of a name.
+export const OMITTED = "";
+
+// The term picked for each template slot, keyed by `slotKeys()`.
+export type Selections = Record<string, string>;
+
+export type SpaceOptions = {
+  delimiter?: string;
+  // The term picked for each element, used by slots pinned to the current selection.
+  selections?: Selections;
+  rules?: CompatibilityRule[];
+  variations?: VariationDef;
+};
+
+export type GenerateOptions = {
+  // Overrides the NameSet's saved template, e.g. with the editor's live drag order.
+  template?: TemplateEntry[];
+  selections?: Selections;
+  // Generate at most this many names.
+  limit?: number;
+};
+
+// Placeholder emitted for an element that has no terms (or no selection) yet.
+export function placeholder(element: string): string {
+  return `{${element}}`;
+}
+
+// The raw terms (tokens) a slot draws from once its mode is applied. `selected` is the
+// slot's current selection, which a pinned slot without a saved pin follows. Deprecated
+// terms are left out unless `includeDeprecated` is set, as the parser does.
+export function slotTerms(config: ConfigObj, entry: TemplateEntry, selected?: string, includeDeprecated = false): string[] {
+  const slot = toSlot(entry);
+  const def = config.elements[slot.element];
+  const terms = includeDeprecated ? termTokens(def) : activeTokens(def);
+
+  switch (slot.mode) {
+    case 'pinned': {
+      const pin = [slot.pinned, selected].find(t => t !== undefined && terms.includes(t));
+      return pin !== undefined ? [pin] : terms.slice(0, 1);
+    }
+    case 'subset':
+      return terms.filter(t => slot.terms?.includes(t));
+    default:
+      return terms;
+  }
+}
+
+export type SlotOption = {
+  value: string;
+  // The term behind the value, or null for an omitted slot or placeholder.
+  term: string | null;
+};
+
+// Each value a slot can contribute, paired with the term it came from.
+export function slotOptions(config: ConfigObj, entry: TemplateEntry, selected?: string): SlotOption[] {
+  const slot = toSlot(entry);
+  const terms = slotTerms(config, entry, selected);
+  const options: SlotOption[] = terms.length > 0
+    ? terms.map(t => ({ value: formatTerm(t, slot.format), term: t }))
+    : [{ value: placeholder(slot.element), term: null }];
+  return slot.mode === 'optional' ? [{ value: OMITTED, term: null }, ...options] : options;
+}
+
+// The values a template slot contributes to a name: its formatted terms, or the
+// element's placeholder when it has none. Optional slots can also be left out.
+export function slotValues(config: ConfigObj, entry: TemplateEntry, selected?: string): string[] {
+  return slotOptions(config, entry, selected).map(o => o.value);
+}
+
+// Join slot values into a name, skipping (and not delimiting) omitted optional slots.
+export function joinName(values: string[], delimiter: string): string {
+  return values.filter(v => v !== OMITTED).join(delimiter);
+}
+
+// --- Variations ---
+
+export function hasVariations(variations: VariationDef | undefined): variations is VariationDef {
+  return !!variations && variations.count > 0;
+}
+
+export function formatVariation(variations: VariationDef, number: number): string {
+  return `${variations.separator}${String(number).padStart(variations.padding, '0')}`;
+}
+
+// The suffix of each numbered variation, or a single empty suffix when variations are off.
+export function variationSuffixes(variations: VariationDef | undefined): string[] {
+  if (!hasVariations(variations)) return [""];
+  return Array.from({ length: variations.count }, (_, i) => formatVariation(variations, variations.start + i));
+}
+
+// --- Permutation Space ---
+// The cartesian product of a template's slot values, addressed by index instead of
+// materialized, so even very large sets can be counted, paged and streamed.
+// Compatibility rules remove combinations; the space stays index-addressable by
+// counting how many valid names extend each prefix. A slot that an exclude rule without
+// terms can leave out gets an extra omitted value, valid only where the rule fires.
+// Each combination is then repeated once per numbered variation.
+
+export type PermutationSpace = {
+  slots: string[][];
+  // Raw term behind each slot value, in the same layout as `slots`.
+  terms: SlotAssignment[];
+  elements: string[];
+  // Slots whose first value is the omitted one a rule can leave them out with
+  omittedByRule: boolean[];
+  delimiter: string;
+  rules: CompatibilityRule[];
+  // Appended to each combination in turn; [""] when the NameSet has no variations.
+  suffixes: string[];
+  // Number of names before rules are applied.
+  rawTotal: number;
+  total: number;
+  // Number of combinations, before variations are expanded.
+  baseTotal: number;
+  counter: CompletionCounter | null;
+};
+
+// Counts the valid names that extend a prefix of slot digits.
+type CompletionCounter = {
+  count: (digits: number[], depth: number) => number;
+  isValid: (digits: number[]) => boolean;
+};
+
+function createCompletionCounter(
+  terms: SlotAssignment[],
+  elements: string[],
+  rules: CompatibilityRule[],
+  omittedByRule: boolean[]
+): CompletionCounter | null {
+  // Rules whose elements are not both in the template can never remove anything
+  const active = rules.filter(rule => ruleElements(rule).every(e => elements.includes(e)));
+  if (active.length === 0) return null;
+
+  const ruled = new Set(active.flatMap(ruleElements));
+  const involved = elements.map((e, i) => ruled.has(e) ? i : -1).filter(i => i >= 0);
+
+  // Product of the sizes of rule-free slots from each depth onwards
+  const freeSuffix = new Array<number>(elements.length + 1).fill(1);
+  for (let i = elements.length - 1; i >= 0; i--) {
+    freeSuffix[i] = freeSuffix[i + 1] * (ruled.has(elements[i]) ? 1 : terms[i].length);
+  }
+
+  const assignmentOf = (digits: number[]): SlotAssignment =>
+    elements.map((_, i) => ruled.has(elements[i]) ? terms[i][digits[i]] : null);
+
+  const isValid = (digits: number[]) => {
+    const assignment = assignmentOf(digits);
+    return !violatesAnyRule(active, elements, assignment)
+      && omittedByRule.every((omittable, i) => !omittable || digits[i] !== 0 || isOmittedByRules(active, elements[i], elements, assignment));
+  };
+
+  const memo = new Map<string, number>();
+  const count = (digits: number[], depth: number): number => {
+    const fixed = involved.filter(i => i < depth);
+    const key = `${depth}:${fixed.map(i => digits[i]).join(',')}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    // Enumerate the remaining rule-bound slots; everything else just multiplies
+    const remaining = involved.filter(i => i >= depth);
+    const trial = [...digits];
+    let valid = 0;
+    const walk = (r: number) => {
+      if (r === remaining.length) {
+        if (isValid(trial)) valid++;
+        return;
+      }
+      const slot = remaining[r];
+      for (let d = 0; d < terms[slot].length; d++) {
+        trial[slot] = d;
+        walk(r + 1);
+      }
+    };
+    walk(0);
+
+    const result = valid * freeSuffix[depth];
+    memo.set(key, result);
+    return result;
+  };
+
+  return { count, isValid };
+}
+
+export function createPermutationSpace(config: ConfigObj, template: TemplateEntry[], options: SpaceOptions = {}): PermutationSpace {
+  const keys = slotKeys(template);
+  const elements = template.map(slotElement);
+  const rules = options.rules ?? [];
+  const omittedByRule = template.map((entry, i) => toSlot(entry).mode !== 'optional' && rules.some(rule =>
+    omitsElement(rule) && rule.then.element === elements[i] && elements.includes(rule.when.element)));
+  const slotOpts = template.map((entry, i) => {
+    const opts = slotOptions(config, entry, options.selections?.[keys[i]]);
+    return omittedByRule[i] ? [{ value: OMITTED, term: null }, ...opts] : opts;
+  });
+  const slots = slotOpts.map(opts => opts.map(o => o.value));
+  const terms = slotOpts.map(opts => opts.map(o => o.term));
+  const suffixes = variationSuffixes(options.variations);
+  // The omitted values rules add aren't combinations of their own
+  const rawBase = slots.length === 0 ? 0 : slots.reduce((count, values, i) => count * (values.length - (omittedByRule[i] ? 1 : 0)), 1);
+  const counter = rawBase > 0 ? createCompletionCounter(terms, elements, rules, omittedByRule) : null;
+  const baseTotal = counter ? counter.count([], 0) : rawBase;
+  return {
+    slots,
+    terms,
+    elements,
+    omittedByRule,
+    delimiter: options.delimiter ?? DEFAULT_DELIMITER,
+    rules,
+    suffixes,
+    rawTotal: rawBase * suffixes.length,
+    total: baseTotal * suffixes.length,
+    baseTotal,
+    counter
+  };
+}
+
+export function nameSetSpace(config: ConfigObj, nameSetId: string, options: Omit<GenerateOptions, 'limit'> = {}): PermutationSpace {
+  const nameSet = config.nameSets[nameSetId];
+  return createPermutationSpace(config, options.template ?? nameSet?.template ?? [], {
+    delimiter: nameSet?.delimiter,
+    selections: options.selections,
+    rules: nameSet?.rules,
+    variations: nameSet?.variations
+  });
+}
+
+export function countPermutations(config: ConfigObj, template: TemplateEntry[], selections?: Selections): number {
+  return createPermutationSpace(config, template, { selections }).total;
+}
+
+// Slot digits of the valid combination at `index` (ignoring variations), with the last slot varying fastest.
+function digitsAt(space: PermutationSpace, index: number): number[] {
+  const digits = new Array<number>(space.slots.length).fill(0);
+  let remainder = index;
+
+  if (!space.counter) {
+    for (let i = space.slots.length - 1; i >= 0; i--) {
+      digits[i] = remainder % space.slots[i].length;
+      remainder = Math.floor(remainder / space.slots[i].length);
+    }
+    return digits;
+  }
+
+  // Walk down the slots, skipping over whole blocks of valid names per value
+  for (let i = 0; i < space.slots.length; i++) {
+    for (let d = 0; d < space.slots[i].length; d++) {
+      digits[i] = d;
+      const block = space.counter.count(digits, i + 1);
+      if (remainder < block) break;
+      remainder -= block;
+    }
+  }
+  return digits;
+}
+
+// The slot values of the name at `index`.
+export function permutationAt(space: PermutationSpace, index: number): string[] {
+  const base = Math.floor(index / space.suffixes.length);
+  return digitsAt(space, base).map((d, i) => space.slots[i][d]);
+}
+
+// The raw terms behind the name at `index` (null for omitted slots and placeholders).
+export function assignmentAt(space: PermutationSpace, index: number): SlotAssignment {
+  const base = Math.floor(index / space.suffixes.length);
+  return digitsAt(space, base).map((d, i) => space.terms[i][d]);
+}
+
+export function variationAt(space: PermutationSpace, index: number): string {
+  return space.suffixes[index % space.suffixes.length];
+}
+
+export function nameAt(space: PermutationSpace, index: number): string {
+  return joinName(permutationAt(space, index), space.delimiter) + variationAt(space, index);
+}
+
+// Walk the slot digits of the combinations in [start, end), before variations are expanded.
+// The same array is advanced in place, so read it before asking for the next one.
+function* iterateCombinations(space: PermutationSpace, start: number, end: number): Generator<number[]> {
+  if (start >= end) return;
+
+  // Decode the starting index once, then advance like an odometer, skipping ruled-out combinations.
+  const digits = digitsAt(space, start);
+  const advance = () => {
+    for (let i = digits.length - 1; i >= 0; i--) {
+      digits[i]++;
+      if (digits[i] < space.slots[i].length) return;
+      digits[i] = 0;
+    }
+  };
+
+  for (let index = start; index < end; index++) {
+    yield digits;
+    if (index + 1 === end) return;
+    advance();
+    while (space.counter && !space.counter.isValid(digits)) advance();
+  }
+}
+
+// Read each combination in [start, end) once and repeat it for every variation of it.
+function* expandVariations<T>(space: PermutationSpace, start: number, end: number, read: (digits: number[]) => T): Generator<T> {
+  const perBase = space.suffixes.length;
+  let index = start;
+  for (const digits of iterateCombinations(space, Math.floor(start / perBase), Math.ceil(end / perBase))) {
+    const row = read(digits);
+    for (let v = index % perBase; v < perBase && index < end; v++, index++) yield row;
+  }
+}
+
+// Lazily walk the slot values of the names in [start, end) without building the whole list.
+export function iteratePermutations(space: PermutationSpace, start = 0, end = space.total): Generator<string[]> {
+  return expandVariations(space, start, end, digits => digits.map((d, i) => space.slots[i][d]));
+}
+
+// Like `iteratePermutations`, with the raw terms behind each name (see `assignmentAt`).
+export function iterateAssignments(
+  space: PermutationSpace,
+  start = 0,
+  end = space.total
+): Generator<{ values: string[]; assignment: SlotAssignment }> {
+  return expandVariations(space, start, end, digits => ({
+    values: digits.map((d, i) => space.slots[i][d]),
+    assignment: digits.map((d, i) => space.terms[i][d])
+  }));
+}
+
+export function* iterateNames(space: PermutationSpace, start = 0, end = space.total): Generator<string> {
+  let index = start;
+  for (const values of iteratePermutations(space, start, end)) {
+    yield joinName(values, space.delimiter) + variationAt(space, index++);
+  }
+}
+
+// How many combinations each rule removes on its own (a combination can break several rules).
+// A rule that leaves a slot out removes all but one name of each group it fires for.
+export function countRuleRemovals(space: PermutationSpace): number[] {
+  return space.rules.map(rule => {
+    const bound = space.elements.map((e, i) => ruleElements(rule).includes(e) ? i : -1).filter(i => i >= 0);
+    if (space.rawTotal === 0 || !ruleElements(rule).every(e => space.elements.includes(e))) return 0;
+
+    const freeProduct = space.slots.reduce((p, values, i) => bound.includes(i) ? p : p * (values.length - (space.omittedByRule[i] ? 1 : 0)), 1);
+    const assignment: SlotAssignment = space.elements.map(() => null);
+    const omitted = new Set<number>();
+    let removed = 0;
+    const walk = (b: number) => {
+      if (b === bound.length) {
+        if (omitted.size === 0) {
+          if (violatesRule(rule, space.elements, assignment)) removed++;
+        } else if (omitsElement(rule) && [...omitted].every(i => space.elements[i] === rule.then.element)
+          && isOmittedByRules([rule], rule.then.element, space.elements, assignment)) {
+          // The name this rule keeps in place of the ones it removed
+          removed--;
+        }
+        return;
+      }
+      const slot = bound[b];
+      space.terms[slot].forEach((term, d) => {
+        const isOmitted = space.omittedByRule[slot] && d === 0;
+        if (isOmitted) omitted.add(slot);
+        assignment[slot] = term;
+        walk(b + 1);
+        omitted.delete(slot);
+      });
+    };
+    walk(0);
+    return removed * freeProduct * space.suffixes.length;
+  });
+}
+
+export function generateNames(config: ConfigObj, nameSetId: string, options: GenerateOptions = {}): string[] {
+  const space = nameSetSpace(config, nameSetId, options);
+  const end = options.limit === undefined ? space.total : Math.min(options.limit, space.total);
+  return Array.from(iterateNames(space, 0, end));
+}
+
+// Build a single name from one chosen term per slot. An optional slot with
+// nothing selected is left out; any other slot without a selection shows its placeholder.
+// With variations on, the name gets the given variation number (the first by default).
+export function composeName(nameSet: NameSetDef, selections: Selections, variation?: number): string {
+  const delimiter = nameSet.delimiter ?? DEFAULT_DELIMITER;
+  const keys = slotKeys(nameSet.template);
+  const values = nameSet.template.map((entry, i) => {
+    const slot = toSlot(entry);
+    const term = slot.mode === 'pinned' && slot.pinned ? slot.pinned : selections[keys[i]];
+    if (term) return formatTerm(term, slot.format);
+    return slot.mode === 'optional' ? OMITTED : placeholder(slot.element);
+  });
+  const suffix = hasVariations(nameSet.variations)
+    ? formatVariation(nameSet.variations, variation ?? nameSet.variations.start)
+    : "";
+  return joinName(values, delimiter) + suffix;
+}
@@ -0,0 +1,138 @@
+import type { NameSetDef } from './types.ts';
+import { assignmentAt, hasVariations, iterateAssignments, joinName, nameAt, variationAt } from './engine.ts';
+import type { PermutationSpace } from './engine.ts';
+import type { SlotAssignment } from './rules.ts';
+import { slotKeys } from './template.ts';
+
+// --- Name List Export ---
+// Turns a permutation space into CSV, TSV or JSON lines: the full name, one column per
+// template slot, and optionally the NameSet's metadata so importers can pivot on it.
+
+export type ExportFormat = 'csv' | 'tsv' | 'json';
+
+export type LineEnding = '\n' | '\r\n';
+
+export type ExportOptions = {
+  format: ExportFormat;
+  // Field separator for CSV. TSV always uses tabs.
+  delimiter: string;
+  lineEnding: LineEnding;
+  // Start the file with a UTF-8 byte order mark so Excel picks the right encoding.
+  bom: boolean;
+  // Include the NameSet, Group and Tags with every row.
+  metadata: boolean;
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'csv',
+  delimiter: ',',
+  lineEnding: '\r\n',
+  bom: false,
+  metadata: true
+};
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  tsv: { extension: 'tsv', mimeType: 'text/tab-separated-values;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json;charset=utf-8' }
+};
+
+const BOM = '\uFEFF';
+
+// Quote a CSV field per RFC 4180 when it holds the delimiter, a quote or a line break.
+export function csvField(value: string, delimiter = ','): string {
+  const needsQuotes = value.includes(delimiter) || /["\r\n]/.test(value);
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// TSV has no quoting, so tabs and line breaks inside a field become spaces.
+function tsvField(value: string): string {
+  return value.replace(/[\t\r\n]/g, ' ');
+}
+
+// Which names to export: the first this many, or the names at these indexes in order.
+export type ExportRows = number | number[];
+
+export function rowCount(space: PermutationSpace, rows: ExportRows = space.total): number {
+  return typeof rows === 'number' ? Math.min(rows, space.total) : rows.length;
+}
+
+export type ExportedRow = {
+  index: number;
+  name: string;
+  // The raw terms behind the name (see `assignmentAt`)
+  assignment: SlotAssignment;
+};
+
+// Each exported name with its index and terms. A leading run of names is walked in order
+// like an odometer; only picked rows are decoded one index at a time.
+export function* exportedRows(space: PermutationSpace, rows: ExportRows = space.total): Generator<ExportedRow> {
+  if (typeof rows !== 'number') {
+    for (const index of rows) yield { index, name: nameAt(space, index), assignment: assignmentAt(space, index) };
+    return;
+  }
+  let index = 0;
+  for (const { values, assignment } of iterateAssignments(space, 0, rowCount(space, rows))) {
+    yield { index, name: joinName(values, space.delimiter) + variationAt(space, index), assignment };
+    index++;
+  }
+}
+
+// The lines of an export, without line endings.
+export function* exportLines(
+  space: PermutationSpace,
+  nameSetId: string,
+  nameSet: NameSetDef | undefined,
+  options: ExportOptions,
+  rows: ExportRows = space.total
+): Generator<string> {
+  const columns = slotKeys(space.elements);
+  const variations = hasVariations(nameSet?.variations) ? nameSet.variations : undefined;
+  const group = nameSet?.group || "";
+  const tags = nameSet?.tags || [];
+  const variationOf = (index: number) => variations
+    ? variations.start + (index % space.suffixes.length)
+    : null;
+  const prefix = options.bom ? BOM : "";
+
+  if (options.format === 'json') {
+    const indent = '  ';
+    yield `${prefix}{`;
+    if (options.metadata) {
+      yield `${indent}"nameSet": ${JSON.stringify(nameSetId)},`;
+      yield `${indent}"group": ${JSON.stringify(group)},`;
+      yield `${indent}"tags": ${JSON.stringify(tags)},`;
+    }
+    yield `${indent}"columns": ${JSON.stringify(columns)},`;
+    yield `${indent}"names": [`;
+    const last = rowCount(space, rows) - 1;
+    let n = 0;
+    for (const { index, name, assignment } of exportedRows(space, rows)) {
+      const terms = Object.fromEntries(columns.map((column, c) => [column, assignment[c]]));
+      const row = variations ? { name, terms, variation: variationOf(index) } : { name, terms };
+      yield `${indent}${indent}${JSON.stringify(row)}${n++ < last ? ',' : ''}`;
+    }
+    yield `${indent}]`;
+    yield '}';
+    return;
+  }
+
+  const field = options.format === 'tsv' ? tsvField : (value: string) => csvField(value, options.delimiter);
+  const separator = options.format === 'tsv' ? '\t' : options.delimiter;
+  const row = (values: string[]) => values.map(field).join(separator);
+
+  yield prefix + row([
+    'Name',
+    ...columns,
+    ...(variations ? ['Variation'] : []),
+    ...(options.metadata ? ['NameSet', 'Group', 'Tags'] : [])
+  ]);
+  for (const { index, name, assignment } of exportedRows(space, rows)) {
+    yield row([
+      name,
+      ...assignment.map(term => term ?? ""),
+      ...(variations ? [String(variationOf(index))] : []),
+      ...(options.metadata ? [nameSetId, group, tags.join('|')] : [])
+    ]);
+  }
+}
@@ -0,0 +1,38 @@
+-- Renames the selected items to the names of the "Footsteps" NameSet, in timeline order.
+-- Generated by Ludonomia.
+local names = {
+  "SFX_Walk_Dirt",
+  "SFX_Walk_Dirt_Tail",
+  "SFX_Walk_Metal,Grate",
+  "SFX_Walk_Metal,Grate_Tail",
+  "SFX_Walk_Wood \"Old\"",
+  "SFX_Walk_Wood \"Old\"_Tail",
+  "SFX_Run_Dirt",
+  "SFX_Run_Dirt_Tail",
+  "SFX_Run_Metal,Grate",
+  "SFX_Run_Metal,Grate_Tail",
+  "SFX_Run_Wood \"Old\"",
+  "SFX_Run_Wood \"Old\"_Tail",
+}
+
+local items = {}
+for i = 0, reaper.CountSelectedMediaItems(0) - 1 do
+  items[#items + 1] = reaper.GetSelectedMediaItem(0, i)
+end
+table.sort(items, function(a, b)
+  return reaper.GetMediaItemInfo_Value(a, "D_POSITION") < reaper.GetMediaItemInfo_Value(b, "D_POSITION")
+end)
+
+reaper.Undo_BeginBlock()
+for i, item in ipairs(items) do
+  local take = reaper.GetActiveTake(item)
+  if names[i] and take then
+    reaper.GetSetMediaItemTakeInfo_String(take, "P_NAME", names[i], true)
+  end
+end
+reaper.UpdateArrange()
+reaper.Undo_EndBlock("Rename items to Footsteps names", -1)
+
+if #items ~= #names then
+  reaper.ShowMessageBox(("Renamed %d of %d selected items; the list has %d names."):format(math.min(#items, #names), #items, #names), "Ludonomia", 0)
+end
\ No newline at end of file
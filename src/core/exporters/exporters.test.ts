@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { ExportRows } from '../export.ts';
+import { DEFAULT_EXPORT_OPTIONS, exportLines } from '../export.ts';
+import { nameSetSpace } from '../engine.ts';
+import { parseProject } from '../projectFile.ts';
+import { streamLines } from '../stream.ts';
+import type { ExportedFile, ExporterValues } from './index.ts';
+import { EXPORTERS, defaultValues } from './index.ts';
+import { reaperRegions, reaperRenameScript } from './reaper.ts';
+import { wwiseImport } from './wwise.ts';
+import { fmodEventPaths } from './fmod.ts';
+
+// Expected output of each exporter for a small fixed project, byte for byte. The files
+// are checked in with exact line endings (see .gitattributes).
+const golden = import.meta.glob<string>('./__golden__/*', { query: '?raw', import: 'default', eager: true });
+
+function goldenFile(name: string): string {
+  const text = golden[`./__golden__/${name}`];
+  if (text === undefined) throw new Error(`Missing golden file ${name}`);
+  return text;
+}
+
+const parsed = parseProject(goldenFile('project.json'));
+if (!parsed.ok) throw new Error(`Golden project failed to load: ${JSON.stringify(parsed.issues)}`);
+const config = parsed.config;
+const space = nameSetSpace(config, "Footsteps");
+
+function context(values: ExporterValues, rows?: ExportRows) {
+  return { space, nameSetId: "Footsteps", nameSet: config.nameSets.Footsteps, values, rows };
+}
+
+// The file as the editor and CLI write it: lines joined by the file's line ending
+async function render(file: Pick<ExportedFile, 'lines' | 'lineEnding'>): Promise<string> {
+  return (await streamLines(file.lines, 0, { lineEnding: file.lineEnding, chunkSize: 4 })).join('');
+}
+
+const cases: { golden: string; file: () => Pick<ExportedFile, 'lines' | 'lineEnding'> }[] = [
+  { golden: 'reaper-regions.csv', file: () => reaperRegions.export(context(defaultValues(reaperRegions))) },
+  { golden: 'reaper-markers.csv', file: () => reaperRegions.export(context({ kind: 'marker', length: 1.5, gap: 0.25 })) },
+  { golden: 'reaper-regions-selected.csv', file: () => reaperRegions.export(context(defaultValues(reaperRegions), [1, 4, 11])) },
+  { golden: 'reaper-rename.lua', file: () => reaperRenameScript.export(context({})) },
+  { golden: 'wwise.txt', file: () => wwiseImport.export(context({ ...defaultValues(wwiseImport), folderDepth: 2 })) },
+  { golden: 'fmod.txt', file: () => fmodEventPaths.export(context({ root: "Characters / Player", folderDepth: 1 })) },
+  {
+    golden: 'names.csv',
+    file: () => ({
+      lines: exportLines(space, "Footsteps", config.nameSets.Footsteps, { ...DEFAULT_EXPORT_OPTIONS, bom: true }),
+      lineEnding: DEFAULT_EXPORT_OPTIONS.lineEnding
+    })
+  }
+];
+
+describe('exporters', () => {
+  it.each(cases)('match $golden', async ({ golden, file }) => {
+    expect(await render(file())).toBe(goldenFile(golden));
+  });
+
+  it('have a golden file each', () => {
+    const covered = [reaperRegions, reaperRenameScript, wwiseImport, fmodEventPaths];
+    expect(EXPORTERS.filter(exporter => !covered.includes(exporter))).toEqual([]);
+  });
+
+  it('write CRLF for Windows tools and LF otherwise', () => {
+    expect(goldenFile('reaper-regions.csv')).toMatch(/^#,Name,Start,End,Length\r\nR1,/);
+    expect(goldenFile('wwise.txt').split('\r\n')).toHaveLength(space.total + 1);
+    expect(goldenFile('fmod.txt')).not.toContain('\r');
+    expect(goldenFile('reaper-rename.lua')).not.toContain('\r');
+  });
+
+  it('start with a BOM only when asked to', () => {
+    expect(goldenFile('names.csv').startsWith('﻿Name,')).toBe(true);
+    cases.filter(c => c.golden !== 'names.csv').forEach(c => expect(goldenFile(c.golden).startsWith('﻿')).toBe(false));
+  });
+
+  it('name files after the NameSet', () => {
+    expect(EXPORTERS.map(exporter => exporter.export(context(defaultValues(exporter))).fileName)).toEqual([
+      'Footsteps_regions.csv',
+      'Footsteps_rename.lua',
+      'Footsteps_wwise.txt',
+      'Footsteps_fmod_events.txt'
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import type { Exporter } from './types.ts';
+import { FOLDER_DEPTH_SETTING, contextRows, hierarchyOf, numberValue, stringValue } from './types.ts';
+
+// --- FMOD ---
+// One event path per line (event:/Folder/Sub Folder/Name), for FMOD Studio scripts
+// and build tooling that create or check events.
+
+// FMOD paths use "/" between folders
+const fmodName = (value: string) => value.replace(/[/\r\n]/g, ' ');
+
+export const fmodEventPaths: Exporter = {
+  id: 'fmod-event-paths',
+  label: "FMOD Event Paths",
+  description: "A list of event:/ paths, one per name, filed under the NameSet's Group, the NameSet and its leading terms.",
+  settings: [
+    { key: 'root', label: "Root folder", kind: 'text', default: '', placeholder: "E.g. Characters" },
+    FOLDER_DEPTH_SETTING
+  ],
+  export: context => {
+    const root = stringValue(context.values, 'root').split('/').map(s => s.trim()).filter(Boolean);
+    const depth = numberValue(context.values, 'folderDepth', 1);
+    function* lines() {
+      for (const row of contextRows(context)) {
+        const folders = [...root, ...hierarchyOf(context, row, depth)].map(fmodName);
+        yield `event:/${[...folders, fmodName(row.name)].join('/')}`;
+      }
+    }
+    return {
+      fileName: `${context.nameSetId}_fmod_events.txt`,
+      mimeType: 'text/plain;charset=utf-8',
+      lineEnding: '\n',
+      lines: lines()
+    };
+  }
+};
@@ -0,0 +1,14 @@
+import type { Exporter } from './types.ts';
+import { reaperRegions, reaperRenameScript } from './reaper.ts';
+import { wwiseImport } from './wwise.ts';
+import { fmodEventPaths } from './fmod.ts';
+
+export type { ExportContext, ExportedFile, Exporter, ExporterSetting, ExporterValues } from './types.ts';
+export { defaultValues } from './types.ts';
+
+// Every tool exporter, in the order the Export dialog lists them.
+export const EXPORTERS: Exporter[] = [reaperRegions, reaperRenameScript, wwiseImport, fmodEventPaths];
+
+export function findExporter(id: string): Exporter | undefined {
+  return EXPORTERS.find(exporter => exporter.id === id);
+}
@@ -0,0 +1,109 @@
+import { csvField } from '../export.ts';
+import type { Exporter } from './types.ts';
+import { contextRows, numberValue, stringValue } from './types.ts';
+
+// --- Reaper ---
+// Region/Marker Manager CSV, and a ReaScript that renames the selected items.
+
+// Minutes:Seconds, the way Reaper's ruler shows time (h:mm:ss.fff past an hour).
+export function reaperTime(milliseconds: number): string {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const fraction = String(milliseconds % 1000).padStart(3, '0');
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  const minutes = Math.floor(totalSeconds / 60);
+  return minutes >= 60
+    ? `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}:${seconds}.${fraction}`
+    : `${minutes}:${seconds}.${fraction}`;
+}
+
+export const reaperRegions: Exporter = {
+  id: 'reaper-regions',
+  label: "Reaper Regions/Markers (CSV)",
+  description: "Import in Reaper's Region/Marker Manager with the ruler set to Minutes:Seconds. "
+    + "Regions are laid out one after another.",
+  settings: [
+    {
+      key: 'kind',
+      label: "Create",
+      kind: 'select',
+      default: 'region',
+      choices: [{ value: 'region', label: "Regions" }, { value: 'marker', label: "Markers" }]
+    },
+    { key: 'length', label: "Region length (seconds)", kind: 'number', default: 2, min: 0.001, step: 0.5 },
+    { key: 'gap', label: "Gap between names (seconds)", kind: 'number', default: 1, min: 0, step: 0.5 }
+  ],
+  export: context => {
+    const markers = stringValue(context.values, 'kind') === 'marker';
+    const length = Math.round(numberValue(context.values, 'length', 2) * 1000);
+    const gap = Math.round(numberValue(context.values, 'gap', 1) * 1000);
+    function* lines() {
+      yield markers ? '#,Name,Start' : '#,Name,Start,End,Length';
+      // Numbered and laid out one after another, even when only some names are exported
+      let n = 0;
+      for (const row of contextRows(context)) {
+        const start = n * (length + gap);
+        const name = csvField(row.name);
+        n++;
+        yield markers
+          ? `M${n},${name},${reaperTime(start)}`
+          : `R${n},${name},${reaperTime(start)},${reaperTime(start + length)},${reaperTime(length)}`;
+      }
+    }
+    return {
+      fileName: `${context.nameSetId}_${markers ? 'markers' : 'regions'}.csv`,
+      mimeType: 'text/csv;charset=utf-8',
+      lineEnding: '\r\n',
+      lines: lines()
+    };
+  }
+};
+
+function luaString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r/g, '\\r').replace(/\n/g, '\\n')}"`;
+}
+
+export const reaperRenameScript: Exporter = {
+  id: 'reaper-rename-script',
+  label: "Reaper Item Rename Script (Lua)",
+  description: "Load in Reaper's Actions list (ReaScript) and run it with items selected: "
+    + "their active takes are renamed to the generated names in timeline order.",
+  settings: [],
+  export: context => {
+    function* lines() {
+      yield `-- Renames the selected items to the names of the "${context.nameSetId}" NameSet, in timeline order.`;
+      yield '-- Generated by Ludonomia.';
+      yield 'local names = {';
+      for (const row of contextRows(context)) yield `  ${luaString(row.name)},`;
+      yield '}';
+      yield '';
+      yield 'local items = {}';
+      yield 'for i = 0, reaper.CountSelectedMediaItems(0) - 1 do';
+      yield '  items[#items + 1] = reaper.GetSelectedMediaItem(0, i)';
+      yield 'end';
+      yield 'table.sort(items, function(a, b)';
+      yield '  return reaper.GetMediaItemInfo_Value(a, "D_POSITION") < reaper.GetMediaItemInfo_Value(b, "D_POSITION")';
+      yield 'end)';
+      yield '';
+      yield 'reaper.Undo_BeginBlock()';
+      yield 'for i, item in ipairs(items) do';
+      yield '  local take = reaper.GetActiveTake(item)';
+      yield '  if names[i] and take then';
+      yield '    reaper.GetSetMediaItemTakeInfo_String(take, "P_NAME", names[i], true)';
+      yield '  end';
+      yield 'end';
+      yield 'reaper.UpdateArrange()';
+      yield `reaper.Undo_EndBlock(${luaString(`Rename items to ${context.nameSetId} names`)}, -1)`;
+      yield '';
+      yield 'if #items ~= #names then';
+      yield '  reaper.ShowMessageBox(("Renamed %d of %d selected items; the list has %d names.")'
+        + ':format(math.min(#items, #names), #items, #names), "Ludonomia", 0)';
+      yield 'end';
+    }
+    return {
+      fileName: `${context.nameSetId}_rename.lua`,
+      mimeType: 'text/x-lua;charset=utf-8',
+      lineEnding: '\n',
+      lines: lines()
+    };
+  }
+};
@@ -0,0 +1,75 @@
+import type { NameSetDef } from '../types.ts';
+import type { PermutationSpace } from '../engine.ts';
+import { exportedRows } from '../export.ts';
+import type { ExportRows, ExportedRow, LineEnding } from '../export.ts';
+
+// --- Tool Exporters ---
+// An exporter turns a NameSet's generated names into a file another tool can import
+// (a DAW, audio middleware). Each one describes its own settings so the Export dialog
+// can show them without knowing anything about the format. Register new ones in index.ts.
+
+export type ExporterSetting =
+  | { key: string; label: string; kind: 'number'; default: number; min?: number; step?: number }
+  | { key: string; label: string; kind: 'text'; default: string; placeholder?: string }
+  | { key: string; label: string; kind: 'select'; default: string; choices: { value: string; label: string }[] };
+
+export type ExporterValues = Record<string, string | number>;
+
+export type ExportContext = {
+  space: PermutationSpace;
+  nameSetId: string;
+  nameSet: NameSetDef | undefined;
+  values: ExporterValues;
+  // Every name when missing
+  rows?: ExportRows;
+};
+
+export type ExportedFile = {
+  fileName: string;
+  mimeType: string;
+  lineEnding: LineEnding;
+  // Produced lazily, so large NameSets can be streamed
+  lines: Iterable<string>;
+};
+
+export type Exporter = {
+  id: string;
+  label: string;
+  // Shown under the format picker: what the file is and how to import it
+  description: string;
+  settings: ExporterSetting[];
+  export: (context: ExportContext) => ExportedFile;
+};
+
+export function defaultValues(exporter: Exporter): ExporterValues {
+  return Object.fromEntries(exporter.settings.map(setting => [setting.key, setting.default]));
+}
+
+export function stringValue(values: ExporterValues, key: string, fallback = ""): string {
+  const value = values[key];
+  return value === undefined ? fallback : String(value);
+}
+
+export function numberValue(values: ExporterValues, key: string, fallback: number): number {
+  const value = Number(values[key]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+// Folder setting shared by the exporters that build a hierarchy.
+export const FOLDER_DEPTH_SETTING: ExporterSetting = {
+  key: 'folderDepth',
+  label: "Folders from leading template elements",
+  kind: 'number',
+  default: 1,
+  min: 0,
+  step: 1
+};
+
+// The folders a name is filed under: the NameSet's Group, the NameSet itself, then the
+// terms of its first `depth` template slots (omitted slots are skipped).
+export function hierarchyOf(context: ExportContext, row: ExportedRow, depth: number): string[] {
+  const terms = depth > 0 ? row.assignment.slice(0, depth) : [];
+  return [context.nameSet?.group || "", context.nameSetId, ...terms.map(term => term ?? "")].filter(Boolean);
+}
+
+export const contextRows = (context: ExportContext) => exportedRows(context.space, context.rows);
@@ -0,0 +1,64 @@
+import type { Exporter } from './types.ts';
+import { FOLDER_DEPTH_SETTING, contextRows, hierarchyOf, numberValue, stringValue } from './types.ts';
+
+// --- Wwise ---
+// Tab-delimited import (Project > Import Audio Files > Import Tab Delimited). Each name
+// becomes a sound filed under containers for its Group, NameSet and leading terms.
+
+// Wwise names can't hold the path separator
+const wwiseName = (value: string) => value.replace(/[\\\t\r\n]/g, ' ');
+
+export const wwiseImport: Exporter = {
+  id: 'wwise-tab-delimited',
+  label: "Wwise Tab-Delimited Import",
+  description: "Import through Project > Import Audio Files > Import Tab Delimited. "
+    + "Audio files named after each sound are expected next to the import file.",
+  settings: [
+    { key: 'workUnit', label: "Work Unit", kind: 'text', default: 'Default Work Unit' },
+    {
+      key: 'containerType',
+      label: "Folders as",
+      kind: 'select',
+      default: 'Actor-Mixer',
+      choices: [{ value: 'Actor-Mixer', label: "Actor-Mixers" }, { value: 'Virtual Folder', label: "Virtual Folders" }]
+    },
+    FOLDER_DEPTH_SETTING,
+    {
+      key: 'soundType',
+      label: "Sound type",
+      kind: 'select',
+      default: 'Sound SFX',
+      choices: [{ value: 'Sound SFX', label: "Sound SFX" }, { value: 'Sound Voice', label: "Sound Voice" }]
+    },
+    {
+      key: 'events',
+      label: "Events",
+      kind: 'select',
+      default: 'play',
+      choices: [{ value: 'play', label: "A Play event per sound" }, { value: 'none', label: "None" }]
+    }
+  ],
+  export: context => {
+    const workUnit = wwiseName(stringValue(context.values, 'workUnit', 'Default Work Unit')) || 'Default Work Unit';
+    const containerType = stringValue(context.values, 'containerType', 'Actor-Mixer');
+    const soundType = stringValue(context.values, 'soundType', 'Sound SFX');
+    const depth = numberValue(context.values, 'folderDepth', 1);
+    const events = stringValue(context.values, 'events') === 'play';
+    function* lines() {
+      yield ['Audio File', 'Object Path', 'Object Type', 'Event'].join('\t');
+      for (const row of contextRows(context)) {
+        const name = wwiseName(row.name);
+        const folders = hierarchyOf(context, row, depth).map(folder => `<${containerType}>${wwiseName(folder)}`);
+        const path = ['', 'Actor-Mixer Hierarchy', workUnit, ...folders, name].join('\\');
+        const event = events ? ['', 'Events', workUnit, `Play_${name}`].join('\\') : '';
+        yield [`${name}.wav`, path, soundType, event].join('\t');
+      }
+    }
+    return {
+      fileName: `${context.nameSetId}_wwise.txt`,
+      mimeType: 'text/tab-separated-values;charset=utf-8',
+      lineEnding: '\r\n',
+      lines: lines()
+    };
+  }
+};
@@ -0,0 +1,41 @@
+import type { CaseStyle, SlotFormat } from './types.ts';
+
+// --- Term Formatting ---
+
+// Split a term into words on whitespace, dashes, underscores and camelCase boundaries.
+export function splitWords(term: string): string[] {
+  return term
+    .split(/[\s_-]+/)
+    .flatMap(chunk => chunk.split(/(?<=[a-z0-9])(?=[A-Z])/))
+    .filter(Boolean);
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+export function applyCase(term: string, style: CaseStyle): string {
+  switch (style) {
+    case 'upper':
+      return term.toUpperCase();
+    case 'lower':
+      return term.toLowerCase();
+    case 'pascal':
+      return splitWords(term).map(capitalize).join('');
+    case 'camel': {
+      const words = splitWords(term);
+      return words.map((w, i) => i === 0 ? w.toLowerCase() : capitalize(w)).join('');
+    }
+  }
+}
+
+// Strip whitespace, then change case, then truncate, then wrap in the prefix/suffix.
+export function formatTerm(term: string, format: SlotFormat | undefined): string {
+  if (!format) return term;
+
+  let result = term;
+  if (format.stripWhitespace) result = result.replace(/\s+/g, '');
+  if (format.case) result = applyCase(result, format.case);
+  if (format.maxLength !== undefined && format.maxLength > 0) result = result.slice(0, format.maxLength);
+  return `${format.prefix || ''}${result}${format.suffix || ''}`;
+}
@@ -0,0 +1,90 @@
+import type { ConfigObj } from './types.ts';
+import { serializeProject } from './projectFile.ts';
+
+// --- Edit History ---
+// Undo/redo for project edits. Each edit is recorded as a command holding the project as
+// it was just before the edit. What it looked like after is the next command's "before"
+// (or the live project for the latest one), so it is only captured once the command is
+// undone. Projects are immutable, so snapshots share everything the edit didn't touch.
+
+export type ProjectState = {
+  // The project with the live template order already folded in
+  config: ConfigObj;
+  activeNameSet: string;
+  selections: Record<string, string>;
+};
+
+export type Command = {
+  label: string;
+  before: ProjectState;
+  at: number;
+  // Consecutive commands with the same key (keystrokes in one field) are merged.
+  mergeKey?: string;
+};
+
+export type UndoneCommand = Command & { after: ProjectState };
+
+export type History = {
+  past: Command[];
+  // Undone commands, the next one to redo first
+  future: UndoneCommand[];
+};
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+export const HISTORY_LIMIT = 100;
+
+// How close together two commands with the same merge key must be to merge.
+const MERGE_WINDOW_MS = 1000;
+
+function isSameState(a: ProjectState, b: ProjectState): boolean {
+  return a.activeNameSet === b.activeNameSet
+    && (a.config === b.config || serializeProject(a.config) === serializeProject(b.config));
+}
+
+// Record a command that is about to be applied. Recording clears the redo stack.
+export function recordCommand(history: History, command: Command, limit = HISTORY_LIMIT): History {
+  const last = history.past[history.past.length - 1];
+  if (last) {
+    // Typing into the same field keeps extending one command
+    if (command.mergeKey && last.mergeKey === command.mergeKey && command.at - last.at < MERGE_WINDOW_MS) {
+      return { past: [...history.past.slice(0, -1), { ...last, at: command.at }], future: [] };
+    }
+    // The previous command turned out to change nothing (adding a term that was already there)
+    if (isSameState(last.before, command.before)) {
+      return { past: [...history.past.slice(0, -1), command], future: [] };
+    }
+  }
+  return { past: [...history.past, command].slice(-limit), future: [] };
+}
+
+// Step back `steps` commands from the `current` project. Returns the state to restore,
+// or null when there is nothing to undo.
+export function undo(history: History, current: ProjectState, steps = 1): { history: History; state: ProjectState } | null {
+  const past = [...history.past];
+  const future = [...history.future];
+  let state = current;
+  for (let undone = 0; undone < steps && past.length > 0;) {
+    const command = past.pop()!;
+    // Commands that changed nothing are dropped rather than counted as a step
+    if (isSameState(command.before, state)) continue;
+    future.unshift({ ...command, after: state });
+    state = command.before;
+    undone++;
+  }
+  if (past.length === history.past.length) return null;
+  return { history: { past, future }, state };
+}
+
+export function redo(history: History, steps = 1): { history: History; state: ProjectState } | null {
+  const count = Math.min(steps, history.future.length);
+  if (count <= 0) return null;
+  const redone = history.future.slice(0, count);
+  return {
+    history: {
+      past: [...history.past, ...redone.map(({ label, before, at, mergeKey }) => ({ label, before, at, mergeKey }))],
+      future: history.future.slice(count)
+    },
+    state: redone[redone.length - 1].after
+  };
+}
@@ -0,0 +1,139 @@
+import type { ElementDef } from './types.ts';
+import { baseName } from './parser.ts';
+import { termTokens, toTerms } from './terms.ts';
+
+// --- Bulk Term Import ---
+// Turns a spreadsheet, a pasted list or a folder of filenames into proposed columns of
+// terms, and merges the ones the user keeps into the project's elements.
+
+export type ImportColumn = {
+  // Where the column came from: a CSV header, "Part 2" of a filename, etc.
+  source: string;
+  // Element the terms go into. An empty name skips the column.
+  element: string;
+  terms: string[];
+};
+
+export type ColumnSummary = {
+  added: string[];
+  // Terms the element already has (compared ignoring case), which are merged.
+  existing: string[];
+};
+
+function uniqueTerms(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values
+    .map(v => v.trim())
+    .filter(v => {
+      const key = v.toLowerCase();
+      if (!v || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Parse RFC 4180 CSV: quoted fields may hold delimiters, doubled quotes and line breaks.
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else if (c !== '\uFEFF' || i > 0) {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim() !== ""));
+}
+
+// Each CSV column becomes an element, named after its header when there is one.
+export function csvColumns(text: string, delimiter: string, hasHeader: boolean): ImportColumn[] {
+  const rows = parseCsv(text, delimiter);
+  const header = hasHeader ? rows.shift() || [] : [];
+  const width = Math.max(header.length, ...rows.map(r => r.length));
+  return Array.from({ length: width }, (_, c) => {
+    const title = header[c]?.trim() || "";
+    return {
+      source: title || `Column ${c + 1}`,
+      element: title,
+      terms: uniqueTerms(rows.map(r => r[c] ?? ""))
+    };
+  });
+}
+
+// A pasted list, one term per line, for a single element.
+export function listColumn(text: string, element: string): ImportColumn {
+  return { source: "Pasted list", element, terms: uniqueTerms(text.split(/\r?\n/)) };
+}
+
+// Split existing filenames on `delimiter` and propose one element per position. A
+// position whose parts are mostly terms of an existing element is mapped to it, and
+// positions that are only numbers (takes, variations) are skipped by default.
+export function filenameColumns(fileNames: string[], delimiter: string, elements: Record<string, ElementDef>): ImportColumn[] {
+  const split = fileNames
+    .map(name => baseName(name))
+    .filter(Boolean)
+    .map(name => delimiter ? name.split(delimiter) : [name]);
+  const width = Math.max(0, ...split.map(parts => parts.length));
+
+  return Array.from({ length: width }, (_, p) => {
+    const terms = uniqueTerms(split.map(parts => parts[p] ?? ""));
+    const isNumeric = terms.length > 0 && terms.every(t => /^\d+$/.test(t));
+    const known = Object.entries(elements)
+      .map(([name, def]) => {
+        const lower = new Set(termTokens(def).map(t => t.toLowerCase()));
+        return { name, hits: terms.filter(t => lower.has(t.toLowerCase())).length };
+      })
+      .sort((a, b) => b.hits - a.hits)[0];
+    const element = isNumeric ? "" : known && known.hits > 0 && known.hits * 2 >= terms.length ? known.name : `Part ${p + 1}`;
+    return { source: `Part ${p + 1}`, element, terms };
+  });
+}
+
+export function summarizeColumn(elements: Record<string, ElementDef>, column: ImportColumn): ColumnSummary {
+  const current = new Set(termTokens(elements[column.element]).map(t => t.toLowerCase()));
+  return {
+    added: column.terms.filter(t => !current.has(t.toLowerCase())),
+    existing: column.terms.filter(t => current.has(t.toLowerCase()))
+  };
+}
+
+// Merge the kept columns into the elements. New elements are created as needed and
+// terms an element already has (ignoring case) are not added again.
+export function mergeImport(elements: Record<string, ElementDef>, columns: ImportColumn[]): Record<string, ElementDef> {
+  const merged = { ...elements };
+  columns.forEach(column => {
+    const element = column.element.trim();
+    if (!element) return;
+    const current = merged[element]?.terms || [];
+    const { added } = summarizeColumn({ [element]: { terms: current } }, { ...column, element });
+    merged[element] = { ...merged[element], terms: [...current, ...toTerms(added)] };
+  });
+  return merged;
+}
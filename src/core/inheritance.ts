@@ -0,0 +1,205 @@
+import type { ConfigObj, NameSetDef, NameSetOverrides, SlotInsertion, TemplateEntry } from './types.ts';
+import { compactSlot, slotKeys, toSlot, withSlotMode } from './template.ts';
+
+// --- NameSet Inheritance ---
+// A variant NameSet `extends` a parent and only records what it changes: slots inserted
+// after a parent slot, parent slots removed or pinned to a term, and its own delimiter
+// or tags. Everything else follows the parent, so later edits to the parent carry over.
+
+export type SlotOrigin = 'inherited' | 'pinned' | 'added';
+
+// Canonical form of a slot, so two slots compare equal whatever order their settings were set in.
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.fromEntries(Object.entries(value)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => [k, canonical(v)]));
+}
+
+const slotId = (entry: TemplateEntry) => JSON.stringify(canonical(toSlot(compactSlot(toSlot(entry)))));
+
+// Whether a variant's slot is the parent's slot, as is or pinned to a term.
+function matchSlot(parent: TemplateEntry, entry: TemplateEntry): { pin?: string } | null {
+  if (slotId(parent) === slotId(entry)) return {};
+  const slot = toSlot(entry);
+  if (slot.mode === 'pinned' && slot.pinned !== undefined
+    && slotId(withSlotMode(parent, 'pinned', { pinned: slot.pinned })) === slotId(entry)) {
+    return { pin: slot.pinned };
+  }
+  return null;
+}
+
+type TemplateStep =
+  | { kind: 'keep'; key: string; pin?: string }
+  | { kind: 'remove'; key: string }
+  | { kind: 'insert'; after?: string; slot: TemplateEntry };
+
+// Line a variant's template up against its parent's, keeping as many parent slots in
+// place as possible. Parent slots that moved come out as removed and inserted again.
+function diffTemplate(parent: TemplateEntry[], template: TemplateEntry[]): TemplateStep[] {
+  const keys = slotKeys(parent);
+  const n = parent.length;
+  const m = template.length;
+  const kept = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      kept[i][j] = matchSlot(parent[i], template[j]) ? kept[i + 1][j + 1] + 1 : Math.max(kept[i + 1][j], kept[i][j + 1]);
+    }
+  }
+
+  const steps: TemplateStep[] = [];
+  let after: string | undefined;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    const match = i < n && j < m ? matchSlot(parent[i], template[j]) : null;
+    if (match) {
+      steps.push({ kind: 'keep', key: keys[i], pin: match.pin });
+      after = keys[i++];
+      j++;
+    } else if (i < n && (j === m || kept[i + 1][j] >= kept[i][j + 1])) {
+      steps.push({ kind: 'remove', key: keys[i] });
+      after = keys[i++];
+    } else {
+      steps.push({ kind: 'insert', after, slot: template[j++] });
+    }
+  }
+  return steps;
+}
+
+function compactOverrides(overrides: NameSetOverrides): NameSetOverrides | undefined {
+  const compacted: NameSetOverrides = {
+    delimiter: overrides.delimiter,
+    insert: overrides.insert?.length ? overrides.insert : undefined,
+    remove: overrides.remove?.length ? overrides.remove : undefined,
+    pin: overrides.pin && Object.keys(overrides.pin).length > 0 ? overrides.pin : undefined,
+    tags: overrides.tags
+  };
+  return Object.values(compacted).some(v => v !== undefined) ? compacted : undefined;
+}
+
+// Set a NameSet's overrides, leaving the field out of the file when there are none.
+export function withOverrides(nameSet: NameSetDef, overrides: NameSetOverrides): NameSetDef {
+  const next = { ...nameSet, overrides: compactOverrides(overrides) };
+  if (!next.overrides) delete next.overrides;
+  return next;
+}
+
+// The overrides that turn the parent's template into `template`. The variant's own
+// delimiter and tags are kept from `previous`.
+export function deriveOverrides(parent: TemplateEntry[], template: TemplateEntry[], previous: NameSetOverrides = {}): NameSetOverrides {
+  const insert: SlotInsertion[] = [];
+  const remove: string[] = [];
+  const pin: Record<string, string> = {};
+  diffTemplate(parent, template).forEach(step => {
+    if (step.kind === 'keep' && step.pin !== undefined) pin[step.key] = step.pin;
+    if (step.kind === 'remove') remove.push(step.key);
+    if (step.kind === 'insert') insert.push(step.after === undefined ? { slot: step.slot } : { after: step.after, slot: step.slot });
+  });
+  return { delimiter: previous.delimiter, insert, remove, pin, tags: previous.tags };
+}
+
+// Where each slot of a variant's template comes from, for display.
+export function slotOrigins(parent: TemplateEntry[], template: TemplateEntry[]): SlotOrigin[] {
+  return diffTemplate(parent, template).flatMap((step): SlotOrigin[] => {
+    if (step.kind === 'keep') return [step.pin === undefined ? 'inherited' : 'pinned'];
+    return step.kind === 'insert' ? ['added'] : [];
+  });
+}
+
+export function resolveTemplate(parent: TemplateEntry[], overrides: NameSetOverrides = {}): TemplateEntry[] {
+  const keys = slotKeys(parent);
+  const insertions = overrides.insert || [];
+  const insertedAfter = (key: string | undefined) => insertions.filter(i => i.after === key).map(i => i.slot);
+
+  const resolved = insertedAfter(undefined);
+  parent.forEach((entry, i) => {
+    if (!overrides.remove?.includes(keys[i])) {
+      const pin = overrides.pin?.[keys[i]];
+      resolved.push(pin === undefined ? entry : withSlotMode(entry, 'pinned', { pinned: pin }));
+    }
+    resolved.push(...insertedAfter(keys[i]));
+  });
+  // Slots placed after a parent slot that has since gone away end up last
+  resolved.push(...insertions.filter(i => i.after !== undefined && !keys.includes(i.after)).map(i => i.slot));
+  return resolved;
+}
+
+export function resolveNameSet(parent: NameSetDef, variant: NameSetDef): NameSetDef {
+  const overrides = variant.overrides || {};
+  return {
+    ...variant,
+    template: resolveTemplate(parent.template, overrides),
+    delimiter: overrides.delimiter ?? parent.delimiter,
+    tags: overrides.tags ?? parent.tags
+  };
+}
+
+// NameSet ids with every parent before its variants. NameSets extending a NameSet that
+// doesn't exist, or caught in an inheritance cycle, are left out (the schema reports them).
+export function inheritanceOrder(config: ConfigObj): string[] {
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done' | 'broken'>();
+  const visit = (id: string): boolean => {
+    const seen = state.get(id);
+    if (seen) return seen === 'done';
+    const nameSet = config.nameSets[id];
+    if (!nameSet) return false;
+    state.set(id, 'visiting');
+    const ok = nameSet.extends === undefined || visit(nameSet.extends);
+    state.set(id, ok ? 'done' : 'broken');
+    if (ok) order.push(id);
+    return ok;
+  };
+  Object.keys(config.nameSets).forEach(visit);
+  return order;
+}
+
+const hasVariants = (config: ConfigObj) => Object.values(config.nameSets).some(ns => ns.extends !== undefined);
+
+// Recompute every variant from its parent and overrides.
+export function resolveNameSets(config: ConfigObj): ConfigObj {
+  if (!hasVariants(config)) return config;
+  const nameSets = { ...config.nameSets };
+  inheritanceOrder(config).forEach(id => {
+    const parent = nameSets[id].extends;
+    if (parent !== undefined) nameSets[id] = resolveNameSet(nameSets[parent], nameSets[id]);
+  });
+  return { ...config, nameSets };
+}
+
+// The other way round: after an edit applied to every template alike (renaming an
+// element, say), work each variant's overrides out again from its edited template.
+export function rebaseVariants(config: ConfigObj): ConfigObj {
+  if (!hasVariants(config)) return config;
+  const nameSets = { ...config.nameSets };
+  inheritanceOrder(config).forEach(id => {
+    const nameSet = nameSets[id];
+    if (nameSet.extends === undefined) return;
+    nameSets[id] = withOverrides(nameSet, deriveOverrides(nameSets[nameSet.extends].template, nameSet.template, nameSet.overrides));
+  });
+  return { ...config, nameSets };
+}
+
+// Replace a NameSet's template. A variant's template is turned back into overrides of
+// its parent, and the NameSet's own variants pick up the change.
+export function withTemplate(config: ConfigObj, id: string, template: TemplateEntry[]): ConfigObj {
+  const nameSet = config.nameSets[id];
+  if (!nameSet) return config;
+  const parent = nameSet.extends !== undefined ? config.nameSets[nameSet.extends] : undefined;
+  const updated = parent
+    ? withOverrides({ ...nameSet, template: [...template] }, deriveOverrides(parent.template, template, nameSet.overrides))
+    : { ...nameSet, template: [...template] };
+  return resolveNameSets({ ...config, nameSets: { ...config.nameSets, [id]: updated } });
+}
+
+export function variantsOf(config: ConfigObj, id: string): string[] {
+  return Object.keys(config.nameSets).filter(ns => config.nameSets[ns].extends === id);
+}
+
+// How many slot changes a variant makes to its parent's template.
+export function slotOverrideCount(overrides: NameSetOverrides | undefined): number {
+  return (overrides?.insert?.length ?? 0) + (overrides?.remove?.length ?? 0) + Object.keys(overrides?.pin || {}).length;
+}
@@ -0,0 +1,153 @@
+import type { ConfigObj, ElementDef, ElementLibrary, TermDef } from './types.ts';
+import { SCHEMA_VERSION } from './migrations.ts';
+import { validateLibrary, validateProject } from './schema.ts';
+import type { SchemaIssue } from './schema.ts';
+
+// --- Element Libraries ---
+// A project can reference shared element library files by relative path. Library
+// elements are merged under the project's own: a project term with the same token
+// overrides the library's, and any other project terms are added after the library's.
+
+export type LoadedLibrary = {
+  // As written in the project file
+  path: string;
+  // Missing until the file has been found and read
+  library?: ElementLibrary;
+  // Why a file that was found can't be used
+  error?: string;
+};
+
+export type LibraryIssueKind = 'missing' | 'invalid' | 'conflict' | 'reference';
+
+export type LibraryIssue = {
+  kind: LibraryIssueKind;
+  message: string;
+  path?: string;
+  element?: string;
+};
+
+// The library each term still comes from, as element → token → library path.
+// Terms the project overrides are its own and don't appear here.
+export type TermOrigins = Record<string, Record<string, string>>;
+
+export type ResolvedProject = {
+  // The project with library elements merged into `elements`
+  config: ConfigObj;
+  origins: TermOrigins;
+  issues: LibraryIssue[];
+};
+
+export type LibraryParseResult =
+  | { ok: true; library: ElementLibrary }
+  | { ok: false; issues: SchemaIssue[] };
+
+export function parseLibrary(text: string): LibraryParseResult {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, issues: [{ path: '$', message: `Not valid JSON: ${(err as Error).message}` }] };
+  }
+  const issues = validateLibrary(doc);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, library: doc as ElementLibrary };
+}
+
+export function serializeLibrary(library: ElementLibrary): string {
+  return JSON.stringify({ ...library, schema_version: SCHEMA_VERSION }, null, 2);
+}
+
+// The file name at the end of a library path, which is all a browser can match on.
+export function libraryFileName(path: string): string {
+  return path.split(/[\\/]/).pop() || path;
+}
+
+export function libraryName(loaded: LoadedLibrary): string {
+  return loaded.library?.library_name || libraryFileName(loaded.path);
+}
+
+const sameElement = (a: ElementDef, b: ElementDef) => JSON.stringify(a) === JSON.stringify(b);
+
+export function resolveLibraries(config: ConfigObj, loaded: LoadedLibrary[]): ResolvedProject {
+  const paths = config.libraries || [];
+  if (paths.length === 0) return { config, origins: {}, issues: [] };
+
+  const issues: LibraryIssue[] = [];
+  const elements: Record<string, ElementDef> = {};
+  const providers: Record<string, string> = {};
+  const origins: TermOrigins = {};
+
+  paths.forEach(path => {
+    const entry = loaded.find(l => l.path === path);
+    if (!entry?.library) {
+      issues.push(entry?.error
+        ? { kind: 'invalid', path, message: `Library "${path}" can't be used: ${entry.error}` }
+        : { kind: 'missing', path, message: `Library "${path}" hasn't been found.` });
+      return;
+    }
+    Object.entries(entry.library.elements).forEach(([element, def]) => {
+      const provider = providers[element];
+      if (provider === undefined) {
+        providers[element] = path;
+        elements[element] = def;
+        origins[element] = Object.fromEntries(def.terms.map(t => [t.token, path]));
+      } else if (!sameElement(elements[element], def)) {
+        issues.push({
+          kind: 'conflict',
+          path,
+          element,
+          message: `"${element}" is defined differently in "${provider}" and "${path}". Using "${provider}".`
+        });
+      }
+    });
+  });
+
+  Object.entries(config.elements).forEach(([element, local]) => {
+    const shared = elements[element];
+    if (!shared) {
+      elements[element] = local;
+      return;
+    }
+    const overrides = new Map(local.terms.map(t => [t.token, t]));
+    elements[element] = {
+      ...shared,
+      ...local,
+      terms: [
+        ...shared.terms.map(t => overrides.get(t.token) ?? t),
+        ...local.terms.filter(t => !origins[element][t.token])
+      ]
+    };
+    local.terms.forEach(t => delete origins[element][t.token]);
+  });
+
+  const resolved = { ...config, elements };
+
+  // Element and term references can only be checked against the complete picture
+  if (issues.every(issue => issue.kind === 'conflict')) {
+    validateProject({ ...resolved, libraries: undefined }).forEach(issue => {
+      issues.push({ kind: 'reference', message: `${issue.path}: ${issue.message}` });
+    });
+  }
+
+  return { config: resolved, origins, issues };
+}
+
+export function isLibraryTerm(origins: TermOrigins, element: string, token: string): boolean {
+  return origins[element]?.[token] !== undefined;
+}
+
+// Move project terms into a library, replacing library terms with the same token.
+export function promoteTerms(library: ElementLibrary, element: string, terms: TermDef[]): ElementLibrary {
+  const current = library.elements[element]?.terms || [];
+  const promoted = new Map(terms.map(t => [t.token, t]));
+  const tokens = new Set(current.map(t => t.token));
+  return {
+    ...library,
+    elements: {
+      ...library.elements,
+      [element]: {
+        ...library.elements[element],
+        terms: [...current.map(t => promoted.get(t.token) ?? t), ...terms.filter(t => !tokens.has(t.token))]
+      }
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { ConfigObj } from './types.ts';
+import { toTerms } from './terms.ts';
+import { createPermutationSpace } from './engine.ts';
+import { DEFAULT_LINT_SETTINGS, LINT_SCAN_LIMIT, lintSpace } from './lint.ts';
+
+const config: ConfigObj = {
+  project_name: "Test",
+  nameSets: {},
+  elements: {
+    Action: { terms: toTerms(["Walk", "Run", "Jump"]) },
+    Surface: { terms: toTerms(["Dirt", "Metal", "Bad:Glass"]) },
+    Take: { terms: toTerms(["A", "a"]) }
+  }
+};
+
+describe('lintSpace', () => {
+  const space = createPermutationSpace(config, ["Action", "Surface"]);
+
+  it('counts names with errors and the rules they break', async () => {
+    const report = await lintSpace(space, DEFAULT_LINT_SETTINGS);
+    expect(report.checked).toBe(9);
+    expect(report.errors).toBe(3);
+    expect(report.byRule.charset).toBe(3);
+  });
+
+  it('checks as many leading names as asked for', async () => {
+    const first = await lintSpace(space, DEFAULT_LINT_SETTINGS, { rows: 2 });
+    expect(first).toMatchObject({ checked: 2, errors: 0 });
+    const all = await lintSpace(space, DEFAULT_LINT_SETTINGS, { rows: space.total });
+    expect(all).toMatchObject({ checked: 9, errors: 3 });
+  });
+
+  it('checks picked names by index', async () => {
+    const report = await lintSpace(space, DEFAULT_LINT_SETTINGS, { rows: [0, 8] });
+    expect(report).toMatchObject({ checked: 2, errors: 1 });
+  });
+
+  it('flags names that only differ by case', async () => {
+    const report = await lintSpace(createPermutationSpace(config, ["Action", "Take"]), DEFAULT_LINT_SETTINGS);
+    expect(report.byRule.duplicates).toBe(3);
+    expect(report.firstIndex.get("walk_a")).toBe(0);
+  });
+
+  it('remembers spellings for duplicates from the first names only', async () => {
+    // 10 × 10 × 10 × 60 = 60,000 names, past the limit
+    const terms = (count: number) => ({ terms: toTerms(Array.from({ length: count }, (_, i) => `t${i}`)) });
+    const big = createPermutationSpace(
+      { ...config, elements: { A: terms(10), B: terms(10), C: terms(10), D: terms(60) } },
+      ["A", "B", "C", "D"]
+    );
+    const report = await lintSpace(big, DEFAULT_LINT_SETTINGS, { rows: big.total, chunkSize: 20_000 });
+    expect(report.checked).toBe(60_000);
+    expect(report.firstIndex.size).toBe(LINT_SCAN_LIMIT);
+  });
+
+  it('yields between chunks and can be cancelled', async () => {
+    const controller = new AbortController();
+    const scan = lintSpace(space, DEFAULT_LINT_SETTINGS, { chunkSize: 2, signal: controller.signal });
+    controller.abort();
+    await expect(scan).rejects.toThrow();
+  });
+});
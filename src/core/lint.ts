@@ -0,0 +1,208 @@
+import type { LintRuleId, LintSettings } from './types.ts';
+import { iterateNames, nameAt } from './engine.ts';
+import type { PermutationSpace } from './engine.ts';
+import { rowCount } from './export.ts';
+import type { ExportRows } from './export.ts';
+import { yieldToEventLoop } from './stream.ts';
+import type { StreamProgress } from './stream.ts';
+
+// --- Filename Lint ---
+// Checks generated names for things that break downstream tools: characters outside
+// an allowed set, names that are too long, Windows reserved device names, leading or
+// trailing dots and spaces, non-ASCII text, and names that only differ by case.
+
+export type LintIssue = {
+  rule: LintRuleId;
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+export const LINT_RULES: { id: LintRuleId; label: string }[] = [
+  { id: 'charset', label: "Characters outside the allowed set" },
+  { id: 'length', label: "Longer than the maximum length" },
+  { id: 'reserved', label: "Reserved names (CON, NUL, COM1…)" },
+  { id: 'edges', label: "Leading or trailing dots and spaces" },
+  { id: 'nonAscii', label: "Non-ASCII characters" },
+  { id: 'duplicates', label: "Duplicates ignoring case" }
+];
+
+export const WINDOWS_RESERVED_WORDS = [
+  'CON', 'PRN', 'AUX', 'NUL',
+  ...Array.from({ length: 9 }, (_, i) => `COM${i + 1}`),
+  ...Array.from({ length: 9 }, (_, i) => `LPT${i + 1}`)
+];
+
+export const DEFAULT_LINT_SETTINGS: LintSettings = {
+  allowedCharacters: 'A-Za-z0-9_\\-',
+  maxLength: 64,
+  reservedWords: WINDOWS_RESERVED_WORDS,
+  severity: { charset: 'error', length: 'error', reserved: 'error', edges: 'error', nonAscii: 'warning', duplicates: 'error' },
+  blockExport: true
+};
+
+// Names beyond this many aren't scanned for the summary, so huge NameSets stay
+// responsive. Names shown in the list are still checked one by one, and an export checks
+// every name it writes. Any scan only remembers the spellings of its first this many
+// names, so duplicates are found among (or of) those and a multi-million-name export
+// isn't held in memory just to be checked.
+export const LINT_SCAN_LIMIT = 50_000;
+
+export function lintSettings(settings: LintSettings | undefined): LintSettings {
+  return settings
+    ? { ...DEFAULT_LINT_SETTINGS, ...settings, severity: { ...DEFAULT_LINT_SETTINGS.severity, ...settings.severity } }
+    : DEFAULT_LINT_SETTINGS;
+}
+
+// Matches one character outside the allowed set, or null when the set isn't a valid
+// character class.
+export function disallowedPattern(allowedCharacters: string): RegExp | null {
+  if (!allowedCharacters) return null;
+  try {
+    return new RegExp(`[^${allowedCharacters}]`, 'gu');
+  } catch {
+    return null;
+  }
+}
+
+const quoteChars = (chars: string[]) => [...new Set(chars)].map(c => c === ' ' ? 'space' : `"${c}"`).join(', ');
+
+export type NameLinter = (name: string) => LintIssue[];
+
+// Build a checker for single names. Duplicates need the whole list, see `lintSpace`.
+export function createNameLinter(settings: LintSettings): NameLinter {
+  const { severity } = settings;
+  const disallowed = disallowedPattern(settings.allowedCharacters);
+  const reserved = new Set(settings.reservedWords.map(word => word.toUpperCase()));
+  const active = (rule: LintRuleId) => severity[rule] !== 'off';
+
+  return name => {
+    const issues: LintIssue[] = [];
+    const add = (rule: LintRuleId, message: string) => {
+      const level = severity[rule];
+      if (level !== 'off') issues.push({ rule, severity: level, message });
+    };
+
+    const nonAscii = active('nonAscii') ? name.match(/[^\p{ASCII}]/gu) : null;
+    if (nonAscii) add('nonAscii', `Contains non-ASCII characters: ${quoteChars(nonAscii)}.`);
+
+    if (disallowed && active('charset')) {
+      // Non-ASCII characters were already reported on their own
+      const found = (name.match(disallowed) || []).filter(c => !nonAscii?.includes(c));
+      if (found.length > 0) add('charset', `Contains characters that aren't allowed: ${quoteChars(found)}.`);
+    }
+
+    if (settings.maxLength > 0 && name.length > settings.maxLength) {
+      add('length', `Is ${name.length} characters long; the limit is ${settings.maxLength}.`);
+    }
+
+    // Windows also refuses these with any extension, e.g. "CON.wav"
+    const stem = name.split('.')[0].trimEnd().toUpperCase();
+    if (reserved.has(stem)) add('reserved', `"${name.split('.')[0]}" is a reserved file name.`);
+
+    if (/^[ .]/.test(name)) add('edges', `Starts with ${name[0] === ' ' ? 'a space' : 'a dot'}.`);
+    if (/[ .]$/.test(name)) add('edges', `Ends with ${name.endsWith(' ') ? 'a space' : 'a dot'}.`);
+
+    return issues;
+  };
+}
+
+export type LintReport = {
+  // How many names were scanned (the first LINT_SCAN_LIMIT unless told otherwise)
+  checked: number;
+  errors: number;
+  warnings: number;
+  // Names with an issue from each rule
+  byRule: Record<LintRuleId, number>;
+  // Index of the first name with each lowercased spelling, for spotting duplicates.
+  // Only the first LINT_SCAN_LIMIT names scanned are recorded.
+  firstIndex: Map<string, number>;
+};
+
+// Shown until the first scan finishes
+export const EMPTY_LINT_REPORT: LintReport = {
+  checked: 0,
+  errors: 0,
+  warnings: 0,
+  byRule: { charset: 0, length: 0, reserved: 0, edges: 0, nonAscii: 0, duplicates: 0 },
+  firstIndex: new Map()
+};
+
+function duplicateIssue(report: LintReport, settings: LintSettings, space: PermutationSpace, name: string, index: number): LintIssue | null {
+  const level = settings.severity.duplicates;
+  const first = report.firstIndex.get(name.toLowerCase());
+  if (level === 'off' || first === undefined || first === index) return null;
+  const original = nameAt(space, first);
+  return {
+    rule: 'duplicates',
+    severity: level,
+    message: original === name
+      ? `Same as name #${first + 1}.`
+      : `Same as "${original}" (#${first + 1}) apart from case.`
+  };
+}
+
+export type LintScanOptions = {
+  // Which names to check: the first LINT_SCAN_LIMIT by default
+  rows?: ExportRows;
+  chunkSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: StreamProgress) => void;
+};
+
+// Each name to check with its index, walking a leading run of names like an odometer
+// rather than decoding every index.
+function* namesAt(space: PermutationSpace, rows: ExportRows): Generator<[number, string]> {
+  if (typeof rows !== 'number') {
+    for (const i of rows) yield [i, nameAt(space, i)];
+    return;
+  }
+  let i = 0;
+  for (const name of iterateNames(space, 0, rowCount(space, rows))) yield [i++, name];
+}
+
+// Check names in chunks, handing control back to the event loop between chunks so the
+// editor stays responsive. Rejects with the signal's reason if it is aborted part way through.
+export async function lintSpace(space: PermutationSpace, settings: LintSettings, options: LintScanOptions = {}): Promise<LintReport> {
+  const { rows = LINT_SCAN_LIMIT, chunkSize = 5000, signal, onProgress } = options;
+  const lint = createNameLinter(settings);
+  const report: LintReport = {
+    checked: rowCount(space, rows),
+    errors: 0,
+    warnings: 0,
+    byRule: { charset: 0, length: 0, reserved: 0, edges: 0, nonAscii: 0, duplicates: 0 },
+    firstIndex: new Map()
+  };
+  let done = 0;
+  for (const [i, name] of namesAt(space, rows)) {
+    const key = name.toLowerCase();
+    if (done < LINT_SCAN_LIMIT && !report.firstIndex.has(key)) report.firstIndex.set(key, i);
+    const issues = lint(name);
+    const duplicate = duplicateIssue(report, settings, space, name, i);
+    if (duplicate) issues.push(duplicate);
+    new Set(issues.map(issue => issue.rule)).forEach(rule => report.byRule[rule]++);
+    if (issues.some(issue => issue.severity === 'error')) report.errors++;
+    else if (issues.length > 0) report.warnings++;
+
+    if (++done % chunkSize === 0) {
+      onProgress?.({ done, total: report.checked });
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
+    }
+  }
+  onProgress?.({ done, total: report.checked });
+  return report;
+}
+
+// Every issue with the name at `index`, including duplicates of earlier names once
+// `report` (if any) has scanned them.
+export function nameIssues(
+  report: LintReport | null,
+  settings: LintSettings,
+  lint: NameLinter,
+  space: PermutationSpace,
+  index: number
+): LintIssue[] {
+  const name = nameAt(space, index);
+  const duplicate = report && index < report.checked ? duplicateIssue(report, settings, space, name, index) : null;
+  return duplicate ? [...lint(name), duplicate] : lint(name);
+}
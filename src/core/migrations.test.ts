@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { MIGRATIONS, MigrationError, SCHEMA_VERSION, migrateProject } from './migrations.ts';
+import { parseProject, serializeProject } from './projectFile.ts';
+import { validateProject } from './schema.ts';
+
+// One project file per schema version, each using what that version introduced
+const fixtures = import.meta.glob<string>('./__fixtures__/projects/v*.json', { query: '?raw', import: 'default', eager: true });
+
+function fixture(version: number): string {
+  const text = fixtures[`./__fixtures__/projects/v${version}.json`];
+  if (text === undefined) throw new Error(`Missing fixture for schema version ${version}`);
+  return text;
+}
+
+function parsed(version: number) {
+  const result = parseProject(fixture(version));
+  if (!result.ok) throw new Error(`v${version} fixture failed to load: ${JSON.stringify(result.issues)}`);
+  return result;
+}
+
+const versions = Array.from({ length: SCHEMA_VERSION + 1 }, (_, v) => v);
+
+describe('migrateProject', () => {
+  it('has one migration from each version below the current one', () => {
+    expect(MIGRATIONS.map(m => m.from)).toEqual(versions.slice(0, -1));
+  });
+
+  it.each(versions)('migrates the v%i fixture to a valid current project', version => {
+    const doc = JSON.parse(fixture(version));
+    const { project, fromVersion, applied } = migrateProject(doc);
+    expect(fromVersion).toBe(version);
+    expect(project.schema_version).toBe(SCHEMA_VERSION);
+    expect(applied).toHaveLength(SCHEMA_VERSION - version);
+    expect(validateProject(project)).toEqual([]);
+  });
+
+  it('leaves the input document untouched', () => {
+    const doc = JSON.parse(fixture(0));
+    const before = structuredClone(doc);
+    migrateProject(doc);
+    expect(doc).toEqual(before);
+  });
+
+  it('renames v0 keys without touching terms that share their names', () => {
+    const { config } = parsed(0);
+    expect(Object.keys(config.nameSets)).toEqual(["Footsteps"]);
+    expect(config.elements["Sound Type"].terms).toEqual([{ token: "SFX" }, { token: "presets" }]);
+    expect(config.elements.Surface.terms).toEqual([{ token: "Dirt" }, { token: "categories" }]);
+    expect(config).not.toHaveProperty('presets');
+    expect(config).not.toHaveProperty('categories');
+  });
+
+  it('gives v0 NameSets an empty group and tags', () => {
+    const { config } = parsed(0);
+    expect(config.nameSets.Footsteps.group).toBe("");
+    expect(config.nameSets.Footsteps.tags).toEqual([]);
+  });
+
+  it.each([1, 2, 3, 4, 5])('turns the string terms of v%i into term records', version => {
+    const { config } = parsed(version);
+    expect(config.elements.Surface.terms).toEqual([{ token: "Dirt" }, { token: "Metal" }]);
+  });
+
+  it('carries what each version added over unchanged', () => {
+    expect(parsed(2).config.nameSets.Footsteps.template[1]).toEqual({ element: "Surface", format: { case: 'upper', prefix: "S" } });
+    expect(parsed(3).config.nameSets.Footsteps.template[1]).toEqual({ element: "Surface", mode: 'optional' });
+    expect(parsed(4).config.nameSets.Footsteps.rules).toHaveLength(1);
+    expect(parsed(5).config.nameSets.Footsteps.variations).toEqual({ start: 1, count: 3, padding: 2, separator: "_" });
+    expect(parsed(6).config.elements.Surface.terms[1]).toEqual({ token: "Metal", deprecated: true });
+    expect(parsed(7).config.libraries).toEqual(["shared/elements.json"]);
+    expect(parsed(8).config.nameSets["Footsteps VO"].extends).toBe("Footsteps");
+    expect(parsed(9).config.lint?.maxLength).toBe(64);
+    expect(parsed(10).config.nameSets.Footsteps.coverage).toHaveLength(1);
+  });
+
+  it('round-trips a migrated project through save and load', () => {
+    const { config } = parsed(0);
+    const reloaded = parseProject(serializeProject(config));
+    expect(reloaded.ok && reloaded.migrations).toEqual([]);
+    expect(reloaded.ok && reloaded.config).toEqual({ ...config, schema_version: SCHEMA_VERSION });
+  });
+});
+
+describe('rejected project files', () => {
+  it('rejects a project from a newer version', () => {
+    const doc = { ...JSON.parse(fixture(SCHEMA_VERSION)), schema_version: SCHEMA_VERSION + 1 };
+    expect(() => migrateProject(doc)).toThrow(MigrationError);
+    expect(parseProject(JSON.stringify(doc))).toEqual({
+      ok: false,
+      issues: [{
+        path: '$.schema_version',
+        message: `Project uses schema version ${SCHEMA_VERSION + 1}, but this version of Ludonomia only supports up to ${SCHEMA_VERSION}.`
+      }]
+    });
+  });
+
+  it.each([-1, 1.5, "3"])('rejects schema_version %j', version => {
+    const result = parseProject(JSON.stringify({ ...JSON.parse(fixture(1)), schema_version: version }));
+    expect(result).toEqual({
+      ok: false,
+      issues: [{ path: '$.schema_version', message: `Invalid schema_version: ${JSON.stringify(version)}` }]
+    });
+  });
+
+  it('rejects text that is not JSON', () => {
+    const result = parseProject("{ \"project_name\": ");
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issues).toEqual([{ path: '$', message: expect.stringMatching(/^Not valid JSON: /) }]);
+  });
+
+  it('rejects a document that is not an object', () => {
+    expect(parseProject("[]")).toEqual({ ok: false, issues: [{ path: '$', message: "Expected a project object but found an array." }] });
+  });
+
+  it('reports every problem by JSON path', () => {
+    const doc = JSON.parse(fixture(1));
+    doc.elements.Surface.terms = ["Dirt", 7, "Dirt"];
+    doc.nameSets.Footsteps.template.push("Missing");
+    doc.nameSets["Bad Set"] = { template: "Surface" };
+    delete doc.project_name;
+
+    const result = parseProject(JSON.stringify(doc));
+    expect(!result.ok && result.issues).toEqual([
+      { path: '$.project_name', message: "Expected a string but found nothing." },
+      { path: '$.elements.Surface.terms[1]', message: "Expected a term object but found a number." },
+      { path: '$.elements.Surface.terms[2].token', message: 'Duplicate term "Dirt".' },
+      { path: '$.nameSets.Footsteps.template[2]', message: 'Template references unknown element "Missing".' },
+      { path: '$.nameSets["Bad Set"].template', message: "Expected an array of template slots but found a string." },
+      { path: '$.nameSets["Bad Set"].delimiter', message: "Expected a string but found nothing." }
+    ]);
+  });
+});
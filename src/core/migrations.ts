@@ -0,0 +1,146 @@
+// --- Project File Migrations ---
+// Each migration lifts a raw project document from one schema version to the next.
+// Files written before versioning existed have no schema_version and count as version 0.
+
+// Bump whenever the on-disk shape of a project changes, and add a migration from the previous version.
+export const SCHEMA_VERSION = 10;
+
+type RawProject = Record<string, unknown>;
+
+type Migration = {
+  from: number;
+  description: string;
+  migrate: (doc: RawProject) => RawProject;
+};
+
+export type MigrationResult = {
+  project: RawProject;
+  fromVersion: number;
+  applied: string[];
+};
+
+export class MigrationError extends Error {}
+
+function renameKey(doc: RawProject, from: string, to: string): RawProject {
+  if (!(from in doc) || to in doc) return doc;
+  const { [from]: value, ...rest } = doc;
+  return { ...rest, [to]: value };
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    description: "Rename presets/categories to nameSets/elements and default NameSet group/tags",
+    migrate: (doc) => {
+      const renamed = renameKey(renameKey(doc, 'presets', 'nameSets'), 'categories', 'elements');
+      const nameSets = renamed.nameSets;
+      if (!nameSets || typeof nameSets !== 'object' || Array.isArray(nameSets)) return renamed;
+
+      const migratedNameSets: RawProject = {};
+      Object.entries(nameSets as RawProject).forEach(([name, ns]) => {
+        if (!ns || typeof ns !== 'object' || Array.isArray(ns)) {
+          migratedNameSets[name] = ns;
+          return;
+        }
+        const nameSet = ns as RawProject;
+        migratedNameSets[name] = { ...nameSet, group: nameSet.group ?? "", tags: nameSet.tags ?? [] };
+      });
+      return { ...renamed, nameSets: migratedNameSets };
+    }
+  },
+  {
+    from: 1,
+    // Version 2 only adds optional shapes (slot objects in templates), so existing files carry over as-is.
+    description: "Allow template slots with per-element formatting",
+    migrate: (doc) => doc
+  },
+  {
+    from: 2,
+    description: "Allow all/pinned/optional/subset modes on template slots",
+    migrate: (doc) => doc
+  },
+  {
+    from: 3,
+    description: "Allow term compatibility rules on NameSets",
+    migrate: (doc) => doc
+  },
+  {
+    from: 4,
+    description: "Allow numbered variations on NameSets",
+    migrate: (doc) => doc
+  },
+  {
+    from: 5,
+    description: "Turn plain string terms into term records with a token",
+    migrate: (doc) => {
+      const elements = doc.elements;
+      if (!elements || typeof elements !== 'object' || Array.isArray(elements)) return doc;
+
+      const migratedElements: RawProject = {};
+      Object.entries(elements as RawProject).forEach(([name, el]) => {
+        const element = el as RawProject;
+        if (!el || typeof el !== 'object' || Array.isArray(el) || !Array.isArray(element.terms)) {
+          migratedElements[name] = el;
+          return;
+        }
+        migratedElements[name] = {
+          ...element,
+          terms: element.terms.map(term => typeof term === 'string' ? { token: term } : term)
+        };
+      });
+      return { ...doc, elements: migratedElements };
+    }
+  },
+  {
+    from: 6,
+    description: "Allow shared element libraries referenced by path",
+    migrate: (doc) => doc
+  },
+  {
+    from: 7,
+    description: "Allow NameSets to extend another NameSet",
+    migrate: (doc) => doc
+  },
+  {
+    from: 8,
+    description: "Allow per-project filename lint settings",
+    migrate: (doc) => doc
+  },
+  {
+    from: 9,
+    description: "Allow saved coverage snapshots on NameSets",
+    migrate: (doc) => doc
+  }
+];
+
+export function getSchemaVersion(doc: RawProject): number {
+  const version = doc.schema_version;
+  if (version === undefined) return 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new MigrationError(`Invalid schema_version: ${JSON.stringify(version)}`);
+  }
+  return version;
+}
+
+// Run every migration between the document's version and the current one, in order.
+export function migrateProject(doc: RawProject): MigrationResult {
+  const fromVersion = getSchemaVersion(doc);
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Project uses schema version ${fromVersion}, but this version of Ludonomia only supports up to ${SCHEMA_VERSION}.`
+    );
+  }
+
+  let project = doc;
+  const applied: string[] = [];
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new MigrationError(`No migration registered from schema version ${version}.`);
+    }
+    project = { ...migration.migrate(project), schema_version: version + 1 };
+    applied.push(migration.description);
+  }
+
+  return { project, fromVersion, applied };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { ConfigObj } from './types.ts';
+import { toTerms } from './terms.ts';
+import { createPermutationSpace } from './engine.ts';
+import { EMPTY_NAME_FILTER, countStatuses, filterNames, parseAssetList } from './nameTable.ts';
+
+const config: ConfigObj = {
+  project_name: "Test",
+  nameSets: {},
+  elements: {
+    Action: { terms: toTerms(["Walk", "Run"]) },
+    Surface: { terms: toTerms(["Dirt", "Metal", "Water"]) }
+  }
+};
+
+const space = createPermutationSpace(config, ["Action", "Surface"]);
+const keys = ["Action", "Surface"];
+const statuses = parseAssetList("Walk_Dirt.wav\nrun_metal\twip\nRun_Water, final");
+
+describe('filterNames', () => {
+  it('keeps names with every word, in any case', async () => {
+    expect(await filterNames(space, keys, { ...EMPTY_NAME_FILTER, text: "run  A" }, null)).toEqual({ rows: [4, 5], scanned: 6 });
+  });
+
+  it('filters by column value and status', async () => {
+    const byColumn = await filterNames(space, keys, { ...EMPTY_NAME_FILTER, columns: { Surface: "Dirt" } }, null);
+    expect(byColumn.rows).toEqual([0, 3]);
+    const missing = await filterNames(space, keys, { ...EMPTY_NAME_FILTER, status: 'missing' }, statuses);
+    expect(missing.rows).toEqual([1, 2, 3]);
+  });
+
+  it('stops at the limit, across chunks', async () => {
+    expect(await filterNames(space, keys, { ...EMPTY_NAME_FILTER, text: "_" }, null, { limit: 5, chunkSize: 2 }))
+      .toEqual({ rows: [0, 1, 2, 3, 4], scanned: 5 });
+  });
+
+  it('can be cancelled between chunks', async () => {
+    const controller = new AbortController();
+    const scan = filterNames(space, keys, EMPTY_NAME_FILTER, null, { chunkSize: 2, signal: controller.signal });
+    controller.abort();
+    await expect(scan).rejects.toThrow();
+  });
+});
+
+describe('countStatuses', () => {
+  it('counts the names in each state', async () => {
+    expect(await countStatuses(space, statuses, { chunkSize: 4 })).toEqual({ done: 2, inProgress: 1, missing: 3 });
+  });
+});
@@ -0,0 +1,140 @@
+import { iteratePermutations, joinName, variationAt } from './engine.ts';
+import type { PermutationSpace } from './engine.ts';
+import { baseName } from './parser.ts';
+import { yieldToEventLoop } from './stream.ts';
+
+// --- Generated Names Table ---
+// Filtering and production status for the table of a NameSet's generated names.
+// Filtering has to visit every name, so like the lint it stops after a fixed number
+// and runs in chunks.
+
+export type NameStatus = 'done' | 'inProgress' | 'missing';
+
+export const NAME_STATUSES: { id: NameStatus; label: string }[] = [
+  { id: 'done', label: "Done" },
+  { id: 'inProgress', label: "In Progress" },
+  { id: 'missing', label: "Missing" }
+];
+
+// Words accepted in the status column of a pasted list
+const STATUS_WORDS: Record<string, Exclude<NameStatus, 'missing'>> = {
+  done: 'done',
+  final: 'done',
+  approved: 'done',
+  delivered: 'done',
+  wip: 'inProgress',
+  draft: 'inProgress',
+  'in progress': 'inProgress',
+  inprogress: 'inProgress',
+  started: 'inProgress'
+};
+
+// Existing assets by lowercased name (no folder or extension).
+export type AssetStatuses = Map<string, Exclude<NameStatus, 'missing'>>;
+
+// One asset per line, optionally followed by a tab, comma or semicolon and a status
+// ("done", "wip", "in progress"...), as pasted from a spreadsheet. A bare file name,
+// or one with a status that isn't recognised, counts as done.
+export function parseAssetList(text: string): AssetStatuses {
+  const statuses: AssetStatuses = new Map();
+  text.split(/\r?\n/).forEach(line => {
+    const [file, status = ""] = line.split(/[\t,;]/).map(part => part.trim());
+    const name = baseName(file || "");
+    if (!name) return;
+    const state = STATUS_WORDS[status.toLowerCase()] ?? 'done';
+    // A finished copy wins over a work-in-progress one listed elsewhere
+    if (statuses.get(name.toLowerCase()) !== 'done') statuses.set(name.toLowerCase(), state);
+  });
+  return statuses;
+}
+
+export function nameStatus(statuses: AssetStatuses, name: string): NameStatus {
+  return statuses.get(name.toLowerCase()) ?? 'missing';
+}
+
+export type NameFilter = {
+  // Words that must all appear in the name, in any case
+  text: string;
+  // Required value per slot key
+  columns: Record<string, string>;
+  status: NameStatus | null;
+};
+
+export const EMPTY_NAME_FILTER: NameFilter = { text: "", columns: {}, status: null };
+
+export const TABLE_SCAN_LIMIT = 200_000;
+
+export function isFiltering(filter: NameFilter): boolean {
+  return filter.text.trim() !== "" || Object.keys(filter.columns).length > 0 || filter.status !== null;
+}
+
+export type FilteredNames = {
+  // Indexes of the matching names, in order
+  rows: number[];
+  // How many names were looked at (at most TABLE_SCAN_LIMIT)
+  scanned: number;
+};
+
+export type TableScanOptions = {
+  // How many leading names to look at
+  limit?: number;
+  chunkSize?: number;
+  signal?: AbortSignal;
+};
+
+// Each of the first `limit` names with its index and slot values, handing control back
+// to the event loop every `chunkSize` names so typing in a filter isn't held up.
+// Rejects with the signal's reason if it is aborted part way through.
+async function scanNames(
+  space: PermutationSpace,
+  options: TableScanOptions,
+  visit: (index: number, values: string[], name: () => string) => void
+): Promise<number> {
+  const { limit = TABLE_SCAN_LIMIT, chunkSize = 5000, signal } = options;
+  const scanned = Math.min(space.total, limit);
+  let index = 0;
+  for (const values of iteratePermutations(space, 0, scanned)) {
+    const i = index++;
+    visit(i, values, () => joinName(values, space.delimiter) + variationAt(space, i));
+    if (index % chunkSize === 0) {
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
+    }
+  }
+  return scanned;
+}
+
+// `keys` are the slot keys of the space's template, so column filters can find their slot.
+export async function filterNames(
+  space: PermutationSpace,
+  keys: string[],
+  filter: NameFilter,
+  statuses: AssetStatuses | null,
+  options: TableScanOptions = {}
+): Promise<FilteredNames> {
+  const words = filter.text.toLowerCase().split(/\s+/).filter(Boolean);
+  // Filters on values the slot no longer has (after a format change, say) are ignored
+  const columns = keys
+    .map((key, slot) => ({ slot, value: filter.columns[key] }))
+    .filter(column => column.value !== undefined && space.slots[column.slot]?.includes(column.value));
+  const rows: number[] = [];
+
+  const scanned = await scanNames(space, options, (i, values, nameOf) => {
+    if (!columns.every(({ slot, value }) => values[slot] === value)) return;
+    const name = nameOf();
+    const lower = name.toLowerCase();
+    if (!words.every(word => lower.includes(word))) return;
+    if (filter.status && nameStatus(statuses ?? new Map(), name) !== filter.status) return;
+    rows.push(i);
+  });
+  return { rows, scanned };
+}
+
+export type StatusCounts = Record<NameStatus, number>;
+
+// How many of the first `limit` names are in each state.
+export async function countStatuses(space: PermutationSpace, statuses: AssetStatuses, options: TableScanOptions = {}): Promise<StatusCounts> {
+  const counts: StatusCounts = { done: 0, inProgress: 0, missing: 0 };
+  await scanNames(space, options, (_, __, nameOf) => counts[nameStatus(statuses, nameOf())]++);
+  return counts;
+}
@@ -0,0 +1,341 @@
+import type { ConfigObj, NameSetDef } from './types.ts';
+import { DEFAULT_DELIMITER, hasVariations, slotTerms } from './engine.ts';
+import type { SlotOption } from './engine.ts';
+import { formatTerm } from './format.ts';
+import { describeRule, isOmittedByRules, omitsElement, violatesRule } from './rules.ts';
+import type { SlotAssignment } from './rules.ts';
+import { slotElement, toSlot } from './template.ts';
+import { findTerm, termTokens } from './terms.ts';
+
+// --- Name Parser ---
+// Checks existing filenames against a NameSet and breaks them back down into the
+// element terms they were built from, explaining what is wrong when they don't fit.
+
+export type NameIssueKind =
+  | 'unknown-term'
+  | 'not-allowed'
+  | 'wrong-order'
+  | 'missing-slot'
+  | 'extra-token'
+  | 'variation'
+  | 'rule'
+  | 'mismatch'
+  | 'deprecated';
+
+export type NameIssue = {
+  kind: NameIssueKind;
+  message: string;
+  element?: string;
+  token?: string;
+};
+
+export type ParsedToken = {
+  token: string;
+  // The template element the token was matched to, or null for a stray token.
+  element: string | null;
+  // The term the token stands for, or null if it isn't a valid value for its slot.
+  term: string | null;
+};
+
+export type ParsedName = {
+  input: string;
+  // The input without any directory or file extension.
+  name: string;
+  nameSet: string;
+  valid: boolean;
+  tokens: ParsedToken[];
+  variation?: number;
+  issues: NameIssue[];
+  // Things worth flagging that don't make the name invalid, like deprecated terms.
+  warnings: NameIssue[];
+};
+
+export type ParseOptions = {
+  stripExtension?: boolean;
+};
+
+type ParseSlot = {
+  element: string;
+  optional: boolean;
+  // Optional, or an exclude rule without terms can leave it out
+  omittable: boolean;
+  options: SlotOption[];
+  // Most delimiter-separated tokens a single value of this slot spans.
+  maxParts: number;
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function baseName(input: string, stripExtension = true): string {
+  const file = input.trim().split(/[\\/]/).pop() || "";
+  return stripExtension ? file.replace(/\.[A-Za-z0-9]{1,5}$/, '') : file;
+}
+
+// Slots as the parser sees them. Pinned slots follow the editor's selection, so
+// they accept any term of their element; subsets and formatting still apply.
+// Deprecated terms and aliases are accepted too, each standing for its term.
+function parseSlots(config: ConfigObj, nameSet: NameSetDef): ParseSlot[] {
+  const delimiter = nameSet.delimiter ?? DEFAULT_DELIMITER;
+  const elements = nameSet.template.map(slotElement);
+  const omittedByRule = (element: string) => (nameSet.rules || []).some(rule =>
+    omitsElement(rule) && rule.then.element === element && elements.includes(rule.when.element));
+  return nameSet.template.map(entry => {
+    const slot = toSlot(entry);
+    const lookup = slot.mode === 'pinned' ? { ...slot, mode: undefined } : slot;
+    const def = config.elements[slot.element];
+    const options: SlotOption[] = slotTerms(config, lookup, undefined, true).flatMap(term => [
+      { value: formatTerm(term, slot.format), term },
+      ...(findTerm(def, term)?.aliases || []).map(alias => ({ value: formatTerm(alias, slot.format), term }))
+    ]);
+    const maxParts = Math.max(1, ...options.map(o => delimiter ? o.value.split(delimiter).length : 1));
+    const optional = slot.mode === 'optional';
+    return { element: slot.element, optional, omittable: optional || omittedByRule(slot.element), options, maxParts };
+  });
+}
+
+// Find one term per slot that spells out `name` exactly, or null if there is none.
+function matchExact(name: string, slots: ParseSlot[], delimiter: string): (SlotOption | null)[] | null {
+  const failed = new Set<string>();
+
+  const match = (i: number, pos: number, started: boolean): (SlotOption | null)[] | null => {
+    if (i === slots.length) return pos === name.length ? [] : null;
+    const key = `${i}:${pos}:${started}`;
+    if (failed.has(key)) return null;
+
+    const slot = slots[i];
+    if (slot.omittable) {
+      const rest = match(i + 1, pos, started);
+      if (rest) return [null, ...rest];
+    }
+
+    let start = pos;
+    if (started) {
+      if (!name.startsWith(delimiter, pos)) {
+        failed.add(key);
+        return null;
+      }
+      start += delimiter.length;
+    }
+    for (const option of slot.options) {
+      if (!name.startsWith(option.value, start)) continue;
+      const rest = match(i + 1, start + option.value.length, true);
+      if (rest) return [option, ...rest];
+    }
+
+    failed.add(key);
+    return null;
+  };
+
+  return match(0, 0, false);
+}
+
+type AlignStep =
+  | { op: 'match'; slot: number; tokens: string[]; option: SlotOption }
+  | { op: 'substitute'; slot: number; token: string }
+  | { op: 'skip'; slot: number }
+  | { op: 'extra'; token: string };
+
+// Line tokens up against slots with the fewest problems (an edit-distance alignment),
+// so a near miss can be explained token by token.
+function alignTokens(tokens: string[], slots: ParseSlot[], delimiter: string): AlignStep[] {
+  const n = slots.length;
+  const m = tokens.length;
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(Infinity));
+  const choice: (AlignStep | null)[][] = Array.from({ length: n + 1 }, () => new Array<AlignStep | null>(m + 1).fill(null));
+  cost[n][m] = 0;
+
+  for (let i = n; i >= 0; i--) {
+    for (let j = m; j >= 0; j--) {
+      if (i === n && j === m) continue;
+      let best = Infinity;
+      let step: AlignStep | null = null;
+      const consider = (c: number, s: AlignStep) => {
+        if (c < best) {
+          best = c;
+          step = s;
+        }
+      };
+
+      if (i < n) {
+        const slot = slots[i];
+        for (let k = 1; k <= slot.maxParts && j + k <= m; k++) {
+          const value = tokens.slice(j, j + k).join(delimiter);
+          const option = slot.options.find(o => o.value === value);
+          if (option) consider(cost[i + 1][j + k], { op: 'match', slot: i, tokens: tokens.slice(j, j + k), option });
+        }
+        if (j < m) consider(cost[i + 1][j + 1] + 1, { op: 'substitute', slot: i, token: tokens[j] });
+        consider(cost[i + 1][j] + (slot.omittable ? 0 : 1), { op: 'skip', slot: i });
+      }
+      if (j < m) consider(cost[i][j + 1] + 1, { op: 'extra', token: tokens[j] });
+
+      cost[i][j] = best;
+      choice[i][j] = step;
+    }
+  }
+
+  const steps: AlignStep[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    const step = choice[i][j];
+    if (!step) break;
+    steps.push(step);
+    if (step.op === 'match') {
+      i++;
+      j += step.tokens.length;
+    } else if (step.op === 'substitute') {
+      i++;
+      j++;
+    } else if (step.op === 'skip') {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return steps;
+}
+
+// Explain why `token` doesn't fit the slot it landed in.
+function diagnoseToken(token: string, slot: ParseSlot, slots: ParseSlot[], config: ConfigObj): NameIssue {
+  const owners = slots.filter(s => s !== slot && s.options.some(o => o.value === token)).map(s => s.element);
+  if (owners.length > 0 && !owners.includes(slot.element)) {
+    return {
+      kind: 'wrong-order',
+      element: slot.element,
+      token,
+      message: `"${token}" is a ${owners[0]} term but sits where ${slot.element} should be.`
+    };
+  }
+
+  const sameLetters = slot.options.find(o => o.value.toLowerCase() === token.toLowerCase());
+  if (sameLetters) {
+    return {
+      kind: 'not-allowed',
+      element: slot.element,
+      token,
+      message: `"${token}" should be written "${sameLetters.value}".`
+    };
+  }
+
+  if (termTokens(config.elements[slot.element]).includes(token)) {
+    return {
+      kind: 'not-allowed',
+      element: slot.element,
+      token,
+      message: `"${token}" is a ${slot.element} term but is not allowed in this NameSet.`
+    };
+  }
+
+  return { kind: 'unknown-term', element: slot.element, token, message: `Unknown ${slot.element} term "${token}".` };
+}
+
+export function parseName(config: ConfigObj, nameSetId: string, input: string, options: ParseOptions = {}): ParsedName {
+  const name = baseName(input, options.stripExtension ?? true);
+  const result: ParsedName = { input, name, nameSet: nameSetId, valid: false, tokens: [], issues: [], warnings: [] };
+  const nameSet = config.nameSets[nameSetId];
+  if (!nameSet) {
+    result.issues.push({ kind: 'mismatch', message: `Unknown NameSet "${nameSetId}".` });
+    return result;
+  }
+
+  const delimiter = nameSet.delimiter ?? DEFAULT_DELIMITER;
+  const slots = parseSlots(config, nameSet);
+
+  // Peel off the variation number first
+  let body = name;
+  if (hasVariations(nameSet.variations)) {
+    const { start, count, padding, separator } = nameSet.variations;
+    const found = body.match(new RegExp(`${escapeRegExp(separator)}(\\d+)$`));
+    if (!found) {
+      result.issues.push({ kind: 'variation', message: `Missing a variation number (${separator}${'1'.padStart(padding, '0')} etc.).` });
+    } else {
+      const digits = found[1];
+      const number = parseInt(digits, 10);
+      result.variation = number;
+      body = body.slice(0, found.index);
+      if (digits.length !== Math.max(padding, String(number).length)) {
+        result.issues.push({ kind: 'variation', token: digits, message: `Variation "${digits}" should be zero-padded to ${padding} digits.` });
+      }
+      if (number < start || number >= start + count) {
+        result.issues.push({ kind: 'variation', token: digits, message: `Variation ${number} is outside ${start}–${start + count - 1}.` });
+      }
+    }
+  }
+
+  const rules = nameSet.rules || [];
+  const elements = slots.map(s => s.element);
+  // A left-out slot that isn't optional needs a rule firing for these terms to leave it out
+  const isMissing = (slot: number, assignment: SlotAssignment) => !slots[slot].optional
+    && !isOmittedByRules(rules, slots[slot].element, elements, assignment);
+  const missingIssue = (slot: number): NameIssue =>
+    ({ kind: 'missing-slot', element: slots[slot].element, message: `Missing ${slots[slot].element}.` });
+
+  const exact = matchExact(body, slots, delimiter);
+  if (exact) {
+    result.tokens = exact.flatMap((option, i) => option ? [{ token: option.value, element: slots[i].element, term: option.term }] : []);
+    const assignment = exact.map(o => o?.term ?? null);
+    exact.forEach((option, i) => {
+      if (!option && isMissing(i, assignment)) result.issues.push(missingIssue(i));
+    });
+    rules.forEach(rule => {
+      if (violatesRule(rule, elements, assignment)) {
+        result.issues.push({ kind: 'rule', message: `Breaks rule: ${describeRule(rule)}.` });
+      }
+    });
+  } else if (!delimiter) {
+    result.issues.push({ kind: 'mismatch', message: "Does not match the template." });
+  } else {
+    const tokens = body.split(delimiter);
+    const steps = alignTokens(tokens, slots, delimiter);
+    const assignment: SlotAssignment = slots.map(() => null);
+    steps.forEach(step => {
+      if (step.op === 'match') assignment[step.slot] = step.option.term;
+    });
+    steps.forEach(step => {
+      switch (step.op) {
+        case 'match':
+          result.tokens.push({ token: step.tokens.join(delimiter), element: slots[step.slot].element, term: step.option.term });
+          break;
+        case 'substitute':
+          result.tokens.push({ token: step.token, element: slots[step.slot].element, term: null });
+          result.issues.push(diagnoseToken(step.token, slots[step.slot], slots, config));
+          break;
+        case 'skip':
+          if (isMissing(step.slot, assignment)) result.issues.push(missingIssue(step.slot));
+          break;
+        case 'extra': {
+          result.tokens.push({ token: step.token, element: null, term: null });
+          const owner = slots.find(s => s.options.some(o => o.value === step.token));
+          result.issues.push({
+            kind: owner ? 'wrong-order' : 'extra-token',
+            token: step.token,
+            message: owner
+              ? `"${step.token}" (${owner.element}) is out of place.`
+              : `Unexpected "${step.token}".`
+          });
+          break;
+        }
+      }
+    });
+  }
+
+  result.tokens.forEach(({ token, element, term }) => {
+    if (element && term && findTerm(config.elements[element], term)?.deprecated) {
+      result.warnings.push({ kind: 'deprecated', element, token, message: `"${token}" is a deprecated ${element} term.` });
+    }
+  });
+
+  result.valid = result.issues.length === 0;
+  return result;
+}
+
+// Parse a name against every NameSet in the project, best match first:
+// valid matches, then those with the fewest problems (and then fewest warnings).
+export function matchNameSets(config: ConfigObj, input: string, options: ParseOptions = {}): ParsedName[] {
+  return Object.keys(config.nameSets)
+    .map(id => parseName(config, id, input, options))
+    .sort((a, b) => Number(b.valid) - Number(a.valid) || a.issues.length - b.issues.length
+      || a.warnings.length - b.warnings.length);
+}
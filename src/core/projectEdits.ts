@@ -0,0 +1,201 @@
+import type { CompatibilityRule, ConfigObj, CoverageSnapshot, NameSetDef, NameSetOverrides, TermCondition, TermDef } from './types.ts';
+import { rebaseVariants, resolveNameSets, withOverrides } from './inheritance.ts';
+import { withoutRuleTerm } from './rules.ts';
+import { compactSlot, toSlot, withoutSlotTerm } from './template.ts';
+import { compactTerm } from './terms.ts';
+
+// --- Project Edits ---
+// Whole-project changes to elements, terms and NameSets. Each one returns a new config
+// and carries the change into every template slot and rule that refers to it.
+
+// Rename a key without moving it, so lists keep the order the user sees.
+function renameKey<T>(record: Record<string, T>, from: string, to: string): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key === from ? to : key, value]));
+}
+
+// Every template gets the same edit, so variants work out their overrides again afterwards.
+function mapNameSets(config: ConfigObj, update: (nameSet: NameSetDef) => NameSetDef): ConfigObj {
+  return rebaseVariants({
+    ...config,
+    nameSets: Object.fromEntries(Object.entries(config.nameSets).map(([id, ns]) => [id, update(ns)]))
+  });
+}
+
+export function nameSetsUsingElement(config: ConfigObj, element: string): string[] {
+  return Object.entries(config.nameSets)
+    .filter(([, ns]) => ns.template.some(entry => toSlot(entry).element === element)
+      || (ns.rules || []).some(rule => rule.when.element === element || rule.then.element === element))
+    .map(([id]) => id);
+}
+
+export function renameElement(config: ConfigObj, from: string, to: string): ConfigObj {
+  const renameCondition = (condition: TermCondition) => condition.element === from ? { ...condition, element: to } : condition;
+  const renamed = mapNameSets(config, ns => ({
+    ...ns,
+    template: ns.template.map(entry => {
+      const slot = toSlot(entry);
+      return slot.element === from ? compactSlot({ ...slot, element: to }) : entry;
+    }),
+    rules: ns.rules?.map(rule => ({ ...rule, when: renameCondition(rule.when), then: renameCondition(rule.then) }))
+  }));
+  return { ...renamed, elements: renameKey(config.elements, from, to) };
+}
+
+// Delete an element, taking its slots and any rule that mentions it with it.
+export function deleteElement(config: ConfigObj, element: string): ConfigObj {
+  const keepRule = (rule: CompatibilityRule) => rule.when.element !== element && rule.then.element !== element;
+  const updated = mapNameSets(config, ns => {
+    const rules = ns.rules?.filter(keepRule);
+    return {
+      ...ns,
+      template: ns.template.filter(entry => toSlot(entry).element !== element),
+      rules: rules && rules.length > 0 ? rules : undefined
+    };
+  });
+  const elements = { ...config.elements };
+  delete elements[element];
+  return { ...updated, elements };
+}
+
+// Remove a term from its element and from every slot and rule condition that names it.
+export function removeTerm(config: ConfigObj, element: string, term: string): ConfigObj {
+  const def = config.elements[element];
+  if (!def) return config;
+  const updated = mapNameSets(config, ns => ({
+    ...ns,
+    template: ns.template.map(entry => withoutSlotTerm(entry, element, term)),
+    rules: ns.rules?.map(rule => withoutRuleTerm(rule, element, term))
+  }));
+  return {
+    ...updated,
+    elements: { ...config.elements, [element]: { ...def, terms: def.terms.filter(t => t.token !== term) } }
+  };
+}
+
+// Replace a term's record. A changed token is carried into every slot and rule that
+// refers to the term, the way element renames are.
+export function updateTerm(config: ConfigObj, element: string, token: string, term: TermDef): ConfigObj {
+  const def = config.elements[element];
+  if (!def) return config;
+  const next = compactTerm(term);
+  const elements = {
+    ...config.elements,
+    [element]: { ...def, terms: def.terms.map(t => t.token === token ? next : t) }
+  };
+  if (next.token === token) return { ...config, elements };
+
+  const rename = (t: string) => t === token ? next.token : t;
+  const renameCondition = (condition: TermCondition) => condition.element === element
+    ? { ...condition, terms: condition.terms.map(rename) }
+    : condition;
+  const updated = mapNameSets(config, ns => ({
+    ...ns,
+    template: ns.template.map(entry => {
+      const slot = toSlot(entry);
+      if (slot.element !== element || (slot.pinned !== token && !slot.terms?.includes(token))) return entry;
+      return compactSlot({ ...slot, pinned: slot.pinned === undefined ? undefined : rename(slot.pinned), terms: slot.terms?.map(rename) });
+    }),
+    rules: ns.rules?.map(rule => ({ ...rule, when: renameCondition(rule.when), then: renameCondition(rule.then) }))
+  }));
+  return { ...updated, elements };
+}
+
+// Move a term to a new position within its element. Term order is generation order.
+export function moveTerm(config: ConfigObj, element: string, fromIndex: number, toIndex: number): ConfigObj {
+  const def = config.elements[element];
+  if (!def || fromIndex === toIndex) return config;
+  const terms = [...def.terms];
+  const [moved] = terms.splice(fromIndex, 1);
+  terms.splice(toIndex, 0, moved);
+  return { ...config, elements: { ...config.elements, [element]: { ...def, terms } } };
+}
+
+export function renameNameSet(config: ConfigObj, from: string, to: string): ConfigObj {
+  const nameSets = renameKey(config.nameSets, from, to);
+  Object.entries(nameSets).forEach(([id, ns]) => {
+    if (ns.extends === from) nameSets[id] = { ...ns, extends: to };
+  });
+  return { ...config, nameSets };
+}
+
+// Variants of a deleted NameSet keep what they resolved to and stand on their own.
+export function deleteNameSet(config: ConfigObj, id: string): ConfigObj {
+  const nameSets = { ...config.nameSets };
+  delete nameSets[id];
+  Object.entries(nameSets).forEach(([variant, ns]) => {
+    if (ns.extends === id) nameSets[variant] = detached(ns);
+  });
+  return { ...config, nameSets };
+}
+
+function detached(nameSet: NameSetDef): NameSetDef {
+  const standalone = { ...nameSet };
+  delete standalone.extends;
+  delete standalone.overrides;
+  return standalone;
+}
+
+function insertNameSetAfter(config: ConfigObj, after: string, id: string, nameSet: NameSetDef): ConfigObj {
+  const entries = Object.entries(config.nameSets).flatMap(([key, ns]) => key === after
+    ? [[key, ns], [id, nameSet]] as [string, NameSetDef][]
+    : [[key, ns]] as [string, NameSetDef][]);
+  return { ...config, nameSets: Object.fromEntries(entries) };
+}
+
+// Copy a NameSet under a new name, placed right after the original.
+export function duplicateNameSet(config: ConfigObj, from: string, to: string): ConfigObj {
+  const source = config.nameSets[from];
+  if (!source) return config;
+  // Coverage history was measured on the original, so the copy starts without it
+  const copy = structuredClone(source);
+  delete copy.coverage;
+  return insertNameSetAfter(config, from, to, copy);
+}
+
+// Create a variant of a NameSet that starts out with nothing overridden.
+export function createVariant(config: ConfigObj, parent: string, id: string): ConfigObj {
+  const source = config.nameSets[parent];
+  if (!source) return config;
+  const variant: NameSetDef = { template: [...source.template], delimiter: source.delimiter, group: source.group, extends: parent };
+  if (source.tags) variant.tags = [...source.tags];
+  return insertNameSetAfter(config, parent, id, variant);
+}
+
+// Stop a variant following its parent, keeping its current template, delimiter and tags.
+export function detachVariant(config: ConfigObj, id: string): ConfigObj {
+  const nameSet = config.nameSets[id];
+  if (!nameSet?.extends) return config;
+  return { ...config, nameSets: { ...config.nameSets, [id]: detached(nameSet) } };
+}
+
+// Override a variant's delimiter or tags, or follow the parent's again with `undefined`.
+export function setNameSetOverride<K extends 'delimiter' | 'tags'>(
+  config: ConfigObj,
+  id: string,
+  field: K,
+  value: NameSetOverrides[K]
+): ConfigObj {
+  const nameSet = config.nameSets[id];
+  if (!nameSet?.extends) return config;
+  const updated = withOverrides(nameSet, { ...nameSet.overrides, [field]: value });
+  return resolveNameSets({ ...config, nameSets: { ...config.nameSets, [id]: updated } });
+}
+
+function updateNameSet(config: ConfigObj, id: string, update: (nameSet: NameSetDef) => NameSetDef): ConfigObj {
+  const nameSet = config.nameSets[id];
+  if (!nameSet) return config;
+  return { ...config, nameSets: { ...config.nameSets, [id]: update(nameSet) } };
+}
+
+export function addCoverageSnapshot(config: ConfigObj, id: string, snapshot: CoverageSnapshot): ConfigObj {
+  return updateNameSet(config, id, ns => ({ ...ns, coverage: [...(ns.coverage || []), snapshot] }));
+}
+
+export function removeCoverageSnapshot(config: ConfigObj, id: string, index: number): ConfigObj {
+  return updateNameSet(config, id, ns => {
+    const coverage = (ns.coverage || []).filter((_, i) => i !== index);
+    const next: NameSetDef = { ...ns, coverage };
+    if (coverage.length === 0) delete next.coverage;
+    return next;
+  });
+}
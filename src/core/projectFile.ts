@@ -0,0 +1,54 @@
+import type { ConfigObj, TemplateEntry } from './types.ts';
+import { MigrationError, SCHEMA_VERSION, migrateProject } from './migrations.ts';
+import { validateProject } from './schema.ts';
+import type { SchemaIssue } from './schema.ts';
+import { resolveNameSets, withTemplate } from './inheritance.ts';
+
+export type ParseResult =
+  | { ok: true; config: ConfigObj; migrations: string[] }
+  | { ok: false; issues: SchemaIssue[] };
+
+// Parse, migrate and validate the text of a project file.
+export function parseProject(text: string): ParseResult {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, issues: [{ path: '$', message: `Not valid JSON: ${(err as Error).message}` }] };
+  }
+
+  if (typeof doc !== 'object' || doc === null || Array.isArray(doc)) {
+    return { ok: false, issues: validateProject(doc) };
+  }
+
+  try {
+    const { project, applied } = migrateProject(doc as Record<string, unknown>);
+    const issues = validateProject(project);
+    if (issues.length > 0) return { ok: false, issues };
+    // Variants are recomputed in case the parent was edited by hand
+    return { ok: true, config: resolveNameSets(project as ConfigObj), migrations: applied };
+  } catch (err) {
+    if (err instanceof MigrationError) {
+      return { ok: false, issues: [{ path: '$.schema_version', message: err.message }] };
+    }
+    throw err;
+  }
+}
+
+// The editor keeps the drag order of the active NameSet in its own state;
+// this writes it back into the config so it survives a save.
+export function applyTemplateOrder(config: ConfigObj, nameSet: string, templateOrder: TemplateEntry[]): ConfigObj {
+  return withTemplate(config, nameSet, templateOrder);
+}
+
+// Serialize a project for writing to disk, stamping the current schema version first.
+export function serializeProject(config: ConfigObj): string {
+  const stamped: ConfigObj = { schema_version: SCHEMA_VERSION, ...config };
+  stamped.schema_version = SCHEMA_VERSION;
+  return JSON.stringify(stamped, null, 2);
+}
+
+export function projectFileName(config: ConfigObj): string {
+  const base = config.project_name.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'project';
+  return `${base}.json`;
+}
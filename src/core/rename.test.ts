@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { ConfigObj, VariationDef } from './types.ts';
+import { toTerms } from './terms.ts';
+import { planRenames } from './rename.ts';
+
+function footsteps(variations?: VariationDef): ConfigObj {
+  return {
+    project_name: "Test",
+    elements: {
+      Action: { terms: toTerms(["Walk", "Run"]) },
+      Surface: { terms: toTerms(["Dirt", "Metal"]) }
+    },
+    nameSets: {
+      Footsteps: { template: ["Action", "Surface"], delimiter: "_", variations }
+    }
+  };
+}
+
+const walkDirt = { Action: "Walk", Surface: "Dirt" };
+const variations: VariationDef = { start: 1, count: 3, padding: 2, separator: "_" };
+
+describe('planRenames', () => {
+  it('keeps each file extension', () => {
+    const plan = planRenames(footsteps(), "Footsteps", [
+      { file: "take 1.wav", selections: walkDirt },
+      { file: "take 2.flac", selections: { Action: "Run", Surface: "Metal" } }
+    ]);
+    expect(plan).toEqual([
+      { from: "take 1.wav", to: "Walk_Dirt.wav", missing: [], pastLastVariation: false },
+      { from: "take 2.flac", to: "Run_Metal.flac", missing: [], pastLastVariation: false }
+    ]);
+  });
+
+  it('numbers files that share a name, in row order', () => {
+    const plan = planRenames(footsteps(variations), "Footsteps", [
+      { file: "a.wav", selections: walkDirt },
+      { file: "b.wav", selections: { Action: "Run", Surface: "Dirt" } },
+      { file: "c.wav", selections: walkDirt },
+      { file: "d.wav", selections: walkDirt }
+    ]);
+    expect(plan.map(p => p.to)).toEqual(["Walk_Dirt_01.wav", "Run_Dirt_01.wav", "Walk_Dirt_02.wav", "Walk_Dirt_03.wav"]);
+  });
+
+  it('starts numbering at the first variation number with its padding', () => {
+    const plan = planRenames(footsteps({ start: 0, count: 2, padding: 3, separator: "-" }), "Footsteps", [
+      { file: "a.wav", selections: walkDirt },
+      { file: "b.wav", selections: walkDirt }
+    ]);
+    expect(plan.map(p => p.to)).toEqual(["Walk_Dirt-000.wav", "Walk_Dirt-001.wav"]);
+  });
+
+  it('counts each extension separately', () => {
+    const plan = planRenames(footsteps(variations), "Footsteps", [
+      { file: "a.wav", selections: walkDirt },
+      { file: "b.flac", selections: walkDirt },
+      { file: "c.wav", selections: walkDirt }
+    ]);
+    expect(plan.map(p => p.to)).toEqual(["Walk_Dirt_01.wav", "Walk_Dirt_01.flac", "Walk_Dirt_02.wav"]);
+  });
+
+  it('counts names that differ only in case together', () => {
+    const plan = planRenames(footsteps(variations), "Footsteps", [
+      { file: "a.wav", selections: walkDirt },
+      { file: "b.WAV", selections: walkDirt }
+    ]);
+    expect(plan.map(p => p.to)).toEqual(["Walk_Dirt_01.wav", "Walk_Dirt_02.WAV"]);
+  });
+
+  it('flags files numbered past the last variation', () => {
+    const plan = planRenames(footsteps({ ...variations, count: 2 }), "Footsteps", [
+      { file: "a.wav", selections: walkDirt },
+      { file: "b.wav", selections: walkDirt },
+      { file: "c.wav", selections: walkDirt }
+    ]);
+    expect(plan.map(p => [p.to, p.pastLastVariation])).toEqual([
+      ["Walk_Dirt_01.wav", false],
+      ["Walk_Dirt_02.wav", false],
+      ["Walk_Dirt_03.wav", true]
+    ]);
+  });
+
+  it('leaves names unnumbered when the NameSet has no variations', () => {
+    const plan = planRenames(footsteps({ ...variations, count: 0 }), "Footsteps", [
+      { file: "a.wav", selections: walkDirt },
+      { file: "b.wav", selections: walkDirt }
+    ]);
+    expect(plan.map(p => p.to)).toEqual(["Walk_Dirt.wav", "Walk_Dirt.wav"]);
+  });
+
+  it('lists the slots that still need a term', () => {
+    const [row] = planRenames(footsteps(variations), "Footsteps", [{ file: "a.wav", selections: { Action: "Run" } }]);
+    expect(row).toEqual({ from: "a.wav", to: "Run_{Surface}_01.wav", missing: ["Surface"], pastLastVariation: false });
+  });
+
+  it('plans nothing for an unknown NameSet', () => {
+    expect(planRenames(footsteps(), "Nope", [{ file: "a.wav", selections: walkDirt }])).toEqual([]);
+  });
+});
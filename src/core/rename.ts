@@ -0,0 +1,109 @@
+import type { ConfigObj, NameSetDef } from './types.ts';
+import { composeName, formatVariation, hasVariations, slotTerms } from './engine.ts';
+import type { Selections } from './engine.ts';
+import { parseName } from './parser.ts';
+import { slotElement, slotKeys, toSlot } from './template.ts';
+
+// --- Batch Rename Mapping ---
+// Works out the new name for each file in a folder from a NameSet. Moving the files
+// on disk is done by the desktop backend (src-tauri/src/rename.rs).
+
+export type RenameRow = {
+  file: string;
+  selections: Selections;
+};
+
+export type PlannedRename = {
+  from: string;
+  to: string;
+  // Required slots (by slot key) that still have no term picked for this file.
+  missing: string[];
+  // More files share this name than the NameSet has variations, so it was numbered past
+  // the last one and won't validate.
+  pastLastVariation: boolean;
+};
+
+export function splitExtension(fileName: string): { stem: string; extension: string } {
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0) return { stem: fileName, extension: "" };
+  return { stem: fileName.slice(0, dot), extension: fileName.slice(dot) };
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Keys of the slots that need a picked term before a name can be composed.
+function requiredSlots(nameSet: NameSetDef): string[] {
+  const keys = slotKeys(nameSet.template);
+  return nameSet.template
+    .map(toSlot)
+    .flatMap((slot, i) => slot.mode !== 'optional' && !(slot.mode === 'pinned' && slot.pinned) ? [keys[i]] : []);
+}
+
+// Pick terms for a file by splitting its current name. Names that already follow the
+// NameSet are read with the parser; anything else is matched word by word, ignoring
+// case and punctuation, so "hero footstep dirt 3.wav" still finds its terms.
+export function guessSelections(config: ConfigObj, nameSetId: string, fileName: string): Selections {
+  const nameSet = config.nameSets[nameSetId];
+  if (!nameSet) return {};
+
+  const keys = slotKeys(nameSet.template);
+  const selections: Selections = {};
+
+  // Parsed tokens come back in template order, so an element's nth token fills its nth slot
+  const keysOf = (element: string) => keys.filter((_, i) => slotElement(nameSet.template[i]) === element);
+  const tokenCounts = new Map<string, number>();
+  parseName(config, nameSetId, fileName).tokens.forEach(t => {
+    if (!t.element) return;
+    const n = tokenCounts.get(t.element) ?? 0;
+    tokenCounts.set(t.element, n + 1);
+    const key = keysOf(t.element)[n];
+    if (key && t.term !== null) selections[key] = t.term;
+  });
+
+  const words = splitExtension(fileName).stem.split(/[^A-Za-z0-9]+/).map(normalize).filter(Boolean);
+  const phrases = new Set<string>();
+  words.forEach((_, i) => {
+    for (let k = 1; k <= 3 && i + k <= words.length; k++) phrases.add(words.slice(i, i + k).join(''));
+  });
+
+  nameSet.template.forEach((entry, i) => {
+    const slot = toSlot(entry);
+    if (selections[keys[i]] !== undefined) return;
+    // Don't give a term already used by another slot of the same element
+    const used = new Set(keysOf(slot.element).map(key => selections[key]));
+    const term = slotTerms(config, { ...slot, mode: slot.mode === 'pinned' ? undefined : slot.mode })
+      .find(t => phrases.has(normalize(t)) && !used.has(t));
+    if (term !== undefined) selections[keys[i]] = term;
+  });
+  return selections;
+}
+
+// The new name for every row, keeping each file's extension. When the NameSet has
+// variations, files that would end up with the same name are numbered in order
+// (flagging any numbered past the last variation).
+export function planRenames(config: ConfigObj, nameSetId: string, rows: RenameRow[]): PlannedRename[] {
+  const nameSet = config.nameSets[nameSetId];
+  if (!nameSet) return [];
+
+  const required = requiredSlots(nameSet);
+  const base = { ...nameSet, variations: undefined };
+  const taken = new Map<string, number>();
+
+  return rows.map(row => {
+    const { extension } = splitExtension(row.file);
+    const missing = required.filter(key => !row.selections[key]);
+    let name = composeName(base, row.selections);
+    let pastLastVariation = false;
+    if (hasVariations(nameSet.variations)) {
+      const { start, count } = nameSet.variations;
+      const key = `${name}${extension}`.toLowerCase();
+      const number = taken.get(key) ?? start;
+      taken.set(key, number + 1);
+      name += formatVariation(nameSet.variations, number);
+      pastLastVariation = number > start + count - 1;
+    }
+    return { from: row.file, to: `${name}${extension}`, missing, pastLastVariation };
+  });
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { CompatibilityRule, ConfigObj } from './types.ts';
+import { toTerms } from './terms.ts';
+import { countRuleRemovals, generateNames, nameSetSpace } from './engine.ts';
+import { parseName } from './parser.ts';
+
+const reloadOmitsDistance: CompatibilityRule = {
+  when: { element: "FireMode", terms: ["Reload"] },
+  effect: 'exclude',
+  then: { element: "Distance", terms: [] }
+};
+
+function weapons(rules: CompatibilityRule[], distanceMode?: 'optional'): ConfigObj {
+  return {
+    project_name: "Test",
+    elements: {
+      "Sound Type": { terms: toTerms(["SFX"]) },
+      WeaponID: { terms: toTerms(["Pistol"]) },
+      FireMode: { terms: toTerms(["Single", "Reload"]) },
+      Distance: { terms: toTerms(["Close", "Far"]) }
+    },
+    nameSets: {
+      Weapons: {
+        template: ["Sound Type", "WeaponID", "FireMode", distanceMode ? { element: "Distance", mode: distanceMode } : "Distance"],
+        delimiter: "_",
+        rules
+      }
+    }
+  };
+}
+
+describe('exclude rules without terms', () => {
+  const config = weapons([reloadOmitsDistance]);
+
+  it('leave the element out of the names they fire for', () => {
+    expect(generateNames(config, "Weapons")).toEqual([
+      "SFX_Pistol_Single_Close",
+      "SFX_Pistol_Single_Far",
+      "SFX_Pistol_Reload"
+    ]);
+  });
+
+  it('count the names they fold into one as removed', () => {
+    const space = nameSetSpace(config, "Weapons");
+    expect(space.rawTotal).toBe(4);
+    expect(space.total).toBe(3);
+    expect(countRuleRemovals(space)).toEqual([1]);
+  });
+
+  it('keep only the left-out name of an optional slot', () => {
+    expect(generateNames(weapons([reloadOmitsDistance], 'optional'), "Weapons")).toEqual([
+      "SFX_Pistol_Single",
+      "SFX_Pistol_Single_Close",
+      "SFX_Pistol_Single_Far",
+      "SFX_Pistol_Reload"
+    ]);
+  });
+
+  it('combine with rules that exclude terms', () => {
+    const noFarSingle: CompatibilityRule = {
+      when: { element: "FireMode", terms: ["Single"] },
+      effect: 'exclude',
+      then: { element: "Distance", terms: ["Far"] }
+    };
+    expect(generateNames(weapons([reloadOmitsDistance, noFarSingle]), "Weapons")).toEqual([
+      "SFX_Pistol_Single_Close",
+      "SFX_Pistol_Reload"
+    ]);
+  });
+
+  it('accept the generated names when parsing', () => {
+    for (const name of generateNames(config, "Weapons")) {
+      expect(parseName(config, "Weapons", name).issues).toEqual([]);
+    }
+  });
+
+  it('reject names that keep the element or leave it out elsewhere', () => {
+    expect(parseName(config, "Weapons", "SFX_Pistol_Reload_Far").issues.map(issue => issue.kind)).toEqual(['rule']);
+    expect(parseName(config, "Weapons", "SFX_Pistol_Single").issues).toEqual([
+      { kind: 'missing-slot', element: "Distance", message: "Missing Distance." }
+    ]);
+  });
+});
+
+describe('exclude rules with terms', () => {
+  it('drop the combinations they match', () => {
+    const rule: CompatibilityRule = {
+      when: { element: "FireMode", terms: ["Reload"] },
+      effect: 'exclude',
+      then: { element: "Distance", terms: ["Far"] }
+    };
+    const config = weapons([rule]);
+    expect(generateNames(config, "Weapons")).toEqual([
+      "SFX_Pistol_Single_Close",
+      "SFX_Pistol_Single_Far",
+      "SFX_Pistol_Reload_Close"
+    ]);
+    expect(countRuleRemovals(nameSetSpace(config, "Weapons"))).toEqual([1]);
+  });
+});
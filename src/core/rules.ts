@@ -0,0 +1,70 @@
+import type { CompatibilityRule } from './types.ts';
+
+// --- Term Compatibility Rules ---
+// A rule fires when any slot of its `when` element holds one of the listed terms.
+// A 'require' rule then only allows the listed terms in its `then` element, while an
+// 'exclude' rule forbids the listed terms. An 'exclude' rule with no terms listed leaves
+// its `then` element out of the names it fires for instead, as if the slot were optional.
+// Slots that are left out or have no terms never trigger or break a rule.
+
+// Raw term per template slot, or null where the slot contributes no term.
+export type SlotAssignment = (string | null)[];
+
+export function ruleElements(rule: CompatibilityRule): string[] {
+  return [rule.when.element, rule.then.element];
+}
+
+function termsOf(element: string, slotElements: string[], assignment: SlotAssignment): string[] {
+  const terms: string[] = [];
+  slotElements.forEach((e, i) => {
+    const term = assignment[i];
+    if (e === element && term !== null && term !== undefined) terms.push(term);
+  });
+  return terms;
+}
+
+// Whether the rule leaves its `then` element out rather than ruling out terms of it.
+export function omitsElement(rule: CompatibilityRule): boolean {
+  return rule.effect === 'exclude' && rule.then.terms.length === 0;
+}
+
+export function isTriggered(rule: CompatibilityRule, slotElements: string[], assignment: SlotAssignment): boolean {
+  return termsOf(rule.when.element, slotElements, assignment).some(t => rule.when.terms.includes(t));
+}
+
+// Whether any rule leaves `element` out of the name with these terms.
+export function isOmittedByRules(rules: CompatibilityRule[], element: string, slotElements: string[], assignment: SlotAssignment): boolean {
+  return rules.some(rule => omitsElement(rule) && rule.then.element === element && isTriggered(rule, slotElements, assignment));
+}
+
+export function violatesRule(rule: CompatibilityRule, slotElements: string[], assignment: SlotAssignment): boolean {
+  if (!isTriggered(rule, slotElements, assignment)) return false;
+
+  const present = termsOf(rule.then.element, slotElements, assignment);
+  if (rule.effect === 'require') {
+    return present.some(t => !rule.then.terms.includes(t));
+  }
+  return present.some(t => rule.then.terms.length === 0 || rule.then.terms.includes(t));
+}
+
+export function violatesAnyRule(rules: CompatibilityRule[], slotElements: string[], assignment: SlotAssignment): boolean {
+  return rules.some(rule => violatesRule(rule, slotElements, assignment));
+}
+
+export function describeRule(rule: CompatibilityRule): string {
+  const list = (terms: string[]) => terms.join(' | ');
+  const when = `${rule.when.element} = ${list(rule.when.terms) || '(nothing)'}`;
+  if (rule.effect === 'require') {
+    return `If ${when} then ${rule.then.element} must be ${list(rule.then.terms) || '(nothing)'}`;
+  }
+  if (rule.then.terms.length === 0) return `If ${when} then leave out ${rule.then.element}`;
+  return `If ${when} then ${rule.then.element} cannot be ${list(rule.then.terms)}`;
+}
+
+// Drop a removed term from the conditions of a rule.
+export function withoutRuleTerm(rule: CompatibilityRule, element: string, term: string): CompatibilityRule {
+  const strip = (condition: CompatibilityRule['when']) => condition.element === element
+    ? { ...condition, terms: condition.terms.filter(t => t !== term) }
+    : condition;
+  return { ...rule, when: strip(rule.when), then: strip(rule.then) };
+}
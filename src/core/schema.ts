@@ -0,0 +1,440 @@
+import type { ConfigObj } from './types.ts';
+
+// --- Project Schema Validation ---
+// Checks a (migrated) project document against the ConfigObj shape and reports
+// every problem found, each tagged with the JSON path it was found at.
+
+export type SchemaIssue = {
+  path: string;
+  message: string;
+};
+
+type Issues = SchemaIssue[];
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+export function childPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return IDENTIFIER.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'nothing';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+}
+
+function expectString(value: unknown, path: string, issues: Issues, optional = false): value is string {
+  if (value === undefined && optional) return false;
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `Expected a string but found ${describe(value)}.` });
+    return false;
+  }
+  return true;
+}
+
+function expectStringArray(value: unknown, path: string, issues: Issues) {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `Expected an array of strings but found ${describe(value)}.` });
+    return;
+  }
+  value.forEach((item, i) => expectString(item, childPath(path, i), issues));
+}
+
+function validateElements(elements: Record<string, unknown>, path: string, issues: Issues) {
+  Object.entries(elements).forEach(([name, element]) => {
+    const elementPath = childPath(path, name);
+    if (!isRecord(element)) {
+      issues.push({ path: elementPath, message: `Expected an element object but found ${describe(element)}.` });
+      return;
+    }
+
+    const termsPath = childPath(elementPath, 'terms');
+    if (!Array.isArray(element.terms)) {
+      issues.push({ path: termsPath, message: `Expected an array of terms but found ${describe(element.terms)}.` });
+      return;
+    }
+
+    const seen = new Set<string>();
+    element.terms.forEach((term, i) => {
+      const termPath = childPath(termsPath, i);
+      if (!isRecord(term)) {
+        issues.push({ path: termPath, message: `Expected a term object but found ${describe(term)}.` });
+        return;
+      }
+      expectString(term.label, childPath(termPath, 'label'), issues, true);
+      expectString(term.description, childPath(termPath, 'description'), issues, true);
+      if (term.aliases !== undefined) expectStringArray(term.aliases, childPath(termPath, 'aliases'), issues);
+      if (term.deprecated !== undefined && typeof term.deprecated !== 'boolean') {
+        issues.push({ path: childPath(termPath, 'deprecated'), message: `Expected a boolean but found ${describe(term.deprecated)}.` });
+      }
+
+      const tokenPath = childPath(termPath, 'token');
+      if (!expectString(term.token, tokenPath, issues)) return;
+      if (!term.token.trim()) {
+        issues.push({ path: tokenPath, message: "Terms cannot be empty." });
+      } else if (seen.has(term.token)) {
+        issues.push({ path: tokenPath, message: `Duplicate term "${term.token}".` });
+      }
+      seen.add(term.token);
+    });
+  });
+}
+
+// Tokens of a raw element, for checking the terms templates and rules refer to.
+function knownTokens(element: unknown): unknown[] | null {
+  if (!isRecord(element) || !Array.isArray(element.terms)) return null;
+  return element.terms.map(term => isRecord(term) ? term.token : undefined);
+}
+
+const CASE_STYLES = ['upper', 'lower', 'pascal', 'camel'];
+const SLOT_MODES = ['all', 'pinned', 'optional', 'subset'];
+
+function validateSlotFormat(format: unknown, path: string, issues: Issues) {
+  if (!isRecord(format)) {
+    issues.push({ path, message: `Expected a format object but found ${describe(format)}.` });
+    return;
+  }
+  if (format.case !== undefined && !CASE_STYLES.includes(format.case as string)) {
+    issues.push({ path: childPath(path, 'case'), message: `Case must be one of ${CASE_STYLES.join(', ')}.` });
+  }
+  expectString(format.prefix, childPath(path, 'prefix'), issues, true);
+  expectString(format.suffix, childPath(path, 'suffix'), issues, true);
+  if (format.stripWhitespace !== undefined && typeof format.stripWhitespace !== 'boolean') {
+    issues.push({ path: childPath(path, 'stripWhitespace'), message: `Expected a boolean but found ${describe(format.stripWhitespace)}.` });
+  }
+  if (format.maxLength !== undefined && (!Number.isInteger(format.maxLength) || (format.maxLength as number) < 0)) {
+    issues.push({ path: childPath(path, 'maxLength'), message: "Expected a non-negative whole number." });
+  }
+}
+
+// Returns the element name the entry refers to, if it is well formed.
+function validateTemplateEntry(
+  entry: unknown,
+  path: string,
+  elements: Record<string, unknown> | null,
+  issues: Issues
+): string | null {
+  if (typeof entry === 'string') return entry;
+  if (!isRecord(entry)) {
+    issues.push({ path, message: `Expected an element name or slot object but found ${describe(entry)}.` });
+    return null;
+  }
+  if (entry.format !== undefined) validateSlotFormat(entry.format, childPath(path, 'format'), issues);
+  if (entry.mode !== undefined && !SLOT_MODES.includes(entry.mode as string)) {
+    issues.push({ path: childPath(path, 'mode'), message: `Mode must be one of ${SLOT_MODES.join(', ')}.` });
+  }
+  if (!expectString(entry.element, childPath(path, 'element'), issues)) return null;
+
+  const element = elements?.[entry.element];
+  const knownTerms = knownTokens(element);
+  const checkTerm = (term: unknown, termPath: string) => {
+    if (expectString(term, termPath, issues) && knownTerms && !knownTerms.includes(term)) {
+      issues.push({ path: termPath, message: `"${term}" is not a term of element "${entry.element}".` });
+    }
+  };
+  if (entry.pinned !== undefined) checkTerm(entry.pinned, childPath(path, 'pinned'));
+  if (entry.terms !== undefined) {
+    const termsPath = childPath(path, 'terms');
+    if (Array.isArray(entry.terms)) {
+      entry.terms.forEach((term, i) => checkTerm(term, childPath(termsPath, i)));
+    } else {
+      issues.push({ path: termsPath, message: `Expected an array of terms but found ${describe(entry.terms)}.` });
+    }
+  }
+  return entry.element;
+}
+
+function validateTermCondition(
+  condition: unknown,
+  path: string,
+  elements: Record<string, unknown> | null,
+  issues: Issues
+) {
+  if (!isRecord(condition)) {
+    issues.push({ path, message: `Expected an element/terms condition but found ${describe(condition)}.` });
+    return;
+  }
+  if (!expectString(condition.element, childPath(path, 'element'), issues)) return;
+
+  const element = elements?.[condition.element];
+  if (elements && !Object.hasOwn(elements, condition.element)) {
+    issues.push({ path: childPath(path, 'element'), message: `Rule references unknown element "${condition.element}".` });
+  }
+  const knownTerms = knownTokens(element);
+  const termsPath = childPath(path, 'terms');
+  if (!Array.isArray(condition.terms)) {
+    issues.push({ path: termsPath, message: `Expected an array of terms but found ${describe(condition.terms)}.` });
+    return;
+  }
+  condition.terms.forEach((term, i) => {
+    const termPath = childPath(termsPath, i);
+    if (expectString(term, termPath, issues) && knownTerms && !knownTerms.includes(term)) {
+      issues.push({ path: termPath, message: `"${term}" is not a term of element "${condition.element}".` });
+    }
+  });
+}
+
+function validateRules(rules: unknown, path: string, elements: Record<string, unknown> | null, issues: Issues) {
+  if (!Array.isArray(rules)) {
+    issues.push({ path, message: `Expected an array of rules but found ${describe(rules)}.` });
+    return;
+  }
+  rules.forEach((rule, i) => {
+    const rulePath = childPath(path, i);
+    if (!isRecord(rule)) {
+      issues.push({ path: rulePath, message: `Expected a rule object but found ${describe(rule)}.` });
+      return;
+    }
+    validateTermCondition(rule.when, childPath(rulePath, 'when'), elements, issues);
+    validateTermCondition(rule.then, childPath(rulePath, 'then'), elements, issues);
+    if (rule.effect !== 'require' && rule.effect !== 'exclude') {
+      issues.push({ path: childPath(rulePath, 'effect'), message: 'Effect must be "require" or "exclude".' });
+    }
+  });
+}
+
+function validateVariations(variations: unknown, path: string, issues: Issues) {
+  if (!isRecord(variations)) {
+    issues.push({ path, message: `Expected a variations object but found ${describe(variations)}.` });
+    return;
+  }
+  (['start', 'count', 'padding'] as const).forEach(field => {
+    const value = variations[field];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      issues.push({ path: childPath(path, field), message: "Expected a non-negative whole number." });
+    }
+  });
+  expectString(variations.separator, childPath(path, 'separator'), issues);
+}
+
+function validateCoverage(coverage: unknown, path: string, issues: Issues) {
+  if (!Array.isArray(coverage)) {
+    issues.push({ path, message: `Expected an array of coverage snapshots but found ${describe(coverage)}.` });
+    return;
+  }
+  coverage.forEach((snapshot, i) => {
+    const snapshotPath = childPath(path, i);
+    if (!isRecord(snapshot)) {
+      issues.push({ path: snapshotPath, message: `Expected a coverage snapshot but found ${describe(snapshot)}.` });
+      return;
+    }
+    if (expectString(snapshot.date, childPath(snapshotPath, 'date'), issues) && Number.isNaN(Date.parse(snapshot.date))) {
+      issues.push({ path: childPath(snapshotPath, 'date'), message: "Expected an ISO 8601 date." });
+    }
+    (['expected', 'delivered', 'unexpected'] as const).forEach(field => {
+      const value = snapshot[field];
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        issues.push({ path: childPath(snapshotPath, field), message: "Expected a non-negative whole number." });
+      }
+    });
+    expectString(snapshot.source, childPath(snapshotPath, 'source'), issues, true);
+  });
+}
+
+function validateSlot(entry: unknown, path: string, elements: Record<string, unknown> | null, issues: Issues) {
+  const element = validateTemplateEntry(entry, path, elements, issues);
+  if (element !== null && elements && !Object.hasOwn(elements, element)) {
+    issues.push({ path, message: `Template references unknown element "${element}".` });
+  }
+}
+
+function validateOverrides(overrides: unknown, path: string, elements: Record<string, unknown> | null, issues: Issues) {
+  if (!isRecord(overrides)) {
+    issues.push({ path, message: `Expected an overrides object but found ${describe(overrides)}.` });
+    return;
+  }
+  expectString(overrides.delimiter, childPath(path, 'delimiter'), issues, true);
+  if (overrides.tags !== undefined) expectStringArray(overrides.tags, childPath(path, 'tags'), issues);
+  if (overrides.remove !== undefined) expectStringArray(overrides.remove, childPath(path, 'remove'), issues);
+  if (overrides.pin !== undefined) {
+    const pinPath = childPath(path, 'pin');
+    if (isRecord(overrides.pin)) {
+      Object.entries(overrides.pin).forEach(([key, term]) => expectString(term, childPath(pinPath, key), issues));
+    } else {
+      issues.push({ path: pinPath, message: `Expected an object of slot keys and terms but found ${describe(overrides.pin)}.` });
+    }
+  }
+  if (overrides.insert !== undefined) {
+    const insertPath = childPath(path, 'insert');
+    if (!Array.isArray(overrides.insert)) {
+      issues.push({ path: insertPath, message: `Expected an array of inserted slots but found ${describe(overrides.insert)}.` });
+      return;
+    }
+    overrides.insert.forEach((insertion, i) => {
+      const insertionPath = childPath(insertPath, i);
+      if (!isRecord(insertion)) {
+        issues.push({ path: insertionPath, message: `Expected an inserted slot object but found ${describe(insertion)}.` });
+        return;
+      }
+      expectString(insertion.after, childPath(insertionPath, 'after'), issues, true);
+      validateSlot(insertion.slot, childPath(insertionPath, 'slot'), elements, issues);
+    });
+  }
+}
+
+// Each NameSet's `extends` must name another NameSet without leading back to itself.
+function validateInheritance(nameSets: Record<string, unknown>, path: string, issues: Issues) {
+  const parentOf = (id: string) => {
+    const nameSet = nameSets[id];
+    return isRecord(nameSet) && typeof nameSet.extends === 'string' ? nameSet.extends : undefined;
+  };
+  Object.entries(nameSets).forEach(([name, nameSet]) => {
+    if (!isRecord(nameSet)) return;
+    const extendsPath = childPath(childPath(path, name), 'extends');
+    if (nameSet.overrides !== undefined && nameSet.extends === undefined) {
+      issues.push({ path: childPath(childPath(path, name), 'overrides'), message: "Overrides only apply to a NameSet that extends another." });
+    }
+    if (!expectString(nameSet.extends, extendsPath, issues, true)) return;
+    if (!Object.hasOwn(nameSets, nameSet.extends)) {
+      issues.push({ path: extendsPath, message: `Extends unknown NameSet "${nameSet.extends}".` });
+      return;
+    }
+    const seen = new Set([name]);
+    for (let parent = parentOf(name); parent !== undefined; parent = parentOf(parent)) {
+      if (seen.has(parent)) {
+        issues.push({ path: extendsPath, message: `Inheritance cycle: ${[...seen, parent].join(' → ')}.` });
+        return;
+      }
+      seen.add(parent);
+    }
+  });
+}
+
+function validateNameSets(
+  nameSets: Record<string, unknown>,
+  elements: Record<string, unknown> | null,
+  path: string,
+  issues: Issues
+) {
+  Object.entries(nameSets).forEach(([name, nameSet]) => {
+    const nsPath = childPath(path, name);
+    if (!isRecord(nameSet)) {
+      issues.push({ path: nsPath, message: `Expected a NameSet object but found ${describe(nameSet)}.` });
+      return;
+    }
+
+    const templatePath = childPath(nsPath, 'template');
+    if (Array.isArray(nameSet.template)) {
+      nameSet.template.forEach((entry, i) => validateSlot(entry, childPath(templatePath, i), elements, issues));
+    } else {
+      issues.push({ path: templatePath, message: `Expected an array of template slots but found ${describe(nameSet.template)}.` });
+    }
+
+    expectString(nameSet.delimiter, childPath(nsPath, 'delimiter'), issues);
+    expectString(nameSet.group, childPath(nsPath, 'group'), issues, true);
+    if (nameSet.tags !== undefined) {
+      expectStringArray(nameSet.tags, childPath(nsPath, 'tags'), issues);
+    }
+    if (nameSet.rules !== undefined) {
+      validateRules(nameSet.rules, childPath(nsPath, 'rules'), elements, issues);
+    }
+    if (nameSet.variations !== undefined) {
+      validateVariations(nameSet.variations, childPath(nsPath, 'variations'), issues);
+    }
+    if (nameSet.overrides !== undefined) {
+      validateOverrides(nameSet.overrides, childPath(nsPath, 'overrides'), elements, issues);
+    }
+    if (nameSet.coverage !== undefined) {
+      validateCoverage(nameSet.coverage, childPath(nsPath, 'coverage'), issues);
+    }
+  });
+  validateInheritance(nameSets, path, issues);
+}
+
+const LINT_RULE_IDS = ['charset', 'length', 'reserved', 'edges', 'nonAscii', 'duplicates'];
+const LINT_SEVERITIES = ['error', 'warning', 'off'];
+
+function validateLint(lint: unknown, path: string, issues: Issues) {
+  if (!isRecord(lint)) {
+    issues.push({ path, message: `Expected lint settings but found ${describe(lint)}.` });
+    return;
+  }
+  expectString(lint.allowedCharacters, childPath(path, 'allowedCharacters'), issues);
+  if (typeof lint.maxLength !== 'number' || !Number.isInteger(lint.maxLength) || lint.maxLength < 0) {
+    issues.push({ path: childPath(path, 'maxLength'), message: "Expected a non-negative whole number." });
+  }
+  expectStringArray(lint.reservedWords, childPath(path, 'reservedWords'), issues);
+  if (typeof lint.blockExport !== 'boolean') {
+    issues.push({ path: childPath(path, 'blockExport'), message: `Expected true or false but found ${describe(lint.blockExport)}.` });
+  }
+  const severityPath = childPath(path, 'severity');
+  if (!isRecord(lint.severity)) {
+    issues.push({ path: severityPath, message: `Expected an object of rule severities but found ${describe(lint.severity)}.` });
+    return;
+  }
+  Object.entries(lint.severity).forEach(([rule, level]) => {
+    if (!LINT_RULE_IDS.includes(rule)) {
+      issues.push({ path: childPath(severityPath, rule), message: `Unknown lint rule. Expected one of ${LINT_RULE_IDS.join(', ')}.` });
+    } else if (!LINT_SEVERITIES.includes(level as string)) {
+      issues.push({ path: childPath(severityPath, rule), message: `Severity must be one of ${LINT_SEVERITIES.join(', ')}.` });
+    }
+  });
+}
+
+export function validateProject(doc: unknown): SchemaIssue[] {
+  const issues: Issues = [];
+  const root = '$';
+
+  if (!isRecord(doc)) {
+    issues.push({ path: root, message: `Expected a project object but found ${describe(doc)}.` });
+    return issues;
+  }
+
+  if (doc.schema_version !== undefined && typeof doc.schema_version !== 'number') {
+    issues.push({ path: childPath(root, 'schema_version'), message: `Expected a number but found ${describe(doc.schema_version)}.` });
+  }
+  expectString(doc.project_name, childPath(root, 'project_name'), issues);
+
+  const elements = isRecord(doc.elements) ? doc.elements : null;
+  if (elements) {
+    validateElements(elements, childPath(root, 'elements'), issues);
+  } else {
+    issues.push({ path: childPath(root, 'elements'), message: `Expected an object of elements but found ${describe(doc.elements)}.` });
+  }
+
+  // With libraries, the project's own elements are only part of the picture, so element
+  // and term references are checked once the libraries are resolved (see libraries.ts).
+  let usesLibraries = false;
+  if (doc.libraries !== undefined) {
+    expectStringArray(doc.libraries, childPath(root, 'libraries'), issues);
+    usesLibraries = Array.isArray(doc.libraries) && doc.libraries.length > 0;
+  }
+
+  if (doc.lint !== undefined) validateLint(doc.lint, childPath(root, 'lint'), issues);
+
+  if (isRecord(doc.nameSets)) {
+    validateNameSets(doc.nameSets, usesLibraries ? null : elements, childPath(root, 'nameSets'), issues);
+  } else {
+    issues.push({ path: childPath(root, 'nameSets'), message: `Expected an object of NameSets but found ${describe(doc.nameSets)}.` });
+  }
+
+  return issues;
+}
+
+// Check a shared element library file: a name and an elements map like a project's.
+export function validateLibrary(doc: unknown): SchemaIssue[] {
+  const issues: Issues = [];
+  const root = '$';
+
+  if (!isRecord(doc)) {
+    issues.push({ path: root, message: `Expected a library object but found ${describe(doc)}.` });
+    return issues;
+  }
+  expectString(doc.library_name, childPath(root, 'library_name'), issues, true);
+  if (isRecord(doc.elements)) {
+    validateElements(doc.elements, childPath(root, 'elements'), issues);
+  } else {
+    issues.push({ path: childPath(root, 'elements'), message: `Expected an object of elements but found ${describe(doc.elements)}.` });
+  }
+  return issues;
+}
+
+export function isValidProject(doc: unknown): doc is ConfigObj {
+  return validateProject(doc).length === 0;
+}
@@ -0,0 +1,42 @@
+// --- Chunked Streaming ---
+// Drains a (possibly huge) lazy sequence of lines in chunks, handing control back to
+// the event loop between chunks so progress can render and the job can be cancelled.
+
+export type StreamProgress = {
+  done: number;
+  total: number;
+};
+
+export type StreamOptions = {
+  chunkSize?: number;
+  lineEnding?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: StreamProgress) => void;
+};
+
+export const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Collect `lines` into text chunks (each one a run of lines, newline-separated).
+// Rejects with the signal's reason if it is aborted part way through.
+export async function streamLines(lines: Iterable<string>, total: number, options: StreamOptions = {}): Promise<string[]> {
+  const { chunkSize = 5000, lineEnding = '\n', signal, onProgress } = options;
+  const chunks: string[] = [];
+  let batch: string[] = [];
+  let done = 0;
+
+  for (const line of lines) {
+    batch.push(line);
+    done++;
+    if (batch.length >= chunkSize) {
+      chunks.push(batch.join(lineEnding) + lineEnding);
+      batch = [];
+      onProgress?.({ done, total });
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
+    }
+  }
+
+  chunks.push(batch.join(lineEnding));
+  onProgress?.({ done, total });
+  return chunks;
+}
@@ -0,0 +1,69 @@
+import type { SlotFormat, SlotMode, TemplateEntry, TemplateSlot } from './types.ts';
+
+// --- Template Slot Helpers ---
+
+export function slotElement(entry: TemplateEntry): string {
+  return typeof entry === 'string' ? entry : entry.element;
+}
+
+export function toSlot(entry: TemplateEntry): TemplateSlot {
+  return typeof entry === 'string' ? { element: entry } : entry;
+}
+
+// A key for each slot of a template. An element's first slot is keyed by its name and
+// any later ones by "Element #2", "Element #3"..., so selections (and export columns)
+// stay apart when a template uses the same element more than once.
+export function slotKeys(template: TemplateEntry[]): string[] {
+  const seen = new Map<string, number>();
+  return template.map(entry => {
+    const element = slotElement(entry);
+    const count = (seen.get(element) ?? 0) + 1;
+    seen.set(element, count);
+    return count === 1 ? element : `${element} #${count}`;
+  });
+}
+
+// Whether a slot key (see `slotKeys`) belongs to a slot of `element`.
+export function isSlotKeyOf(key: string, element: string): boolean {
+  if (key === element) return true;
+  const prefix = `${element} #`;
+  return key.startsWith(prefix) && /^\d+$/.test(key.slice(prefix.length));
+}
+
+// Collapse a slot back to a bare element name when it carries no settings,
+// so project files stay as terse as they were before slots existed.
+export function compactSlot(slot: TemplateSlot): TemplateEntry {
+  const { element, ...settings } = slot;
+  const hasSettings = Object.values(settings).some(v => v !== undefined);
+  return hasSettings ? slot : element;
+}
+
+export function isEmptyFormat(format: SlotFormat | undefined): boolean {
+  return !format || Object.values(format).every(v => v === undefined || v === '' || v === false);
+}
+
+export function withSlotFormat(entry: TemplateEntry, format: SlotFormat): TemplateEntry {
+  return compactSlot({ ...toSlot(entry), format: isEmptyFormat(format) ? undefined : format });
+}
+
+// Switch a slot's generation mode, dropping settings that only applied to the old mode.
+export function withSlotMode(entry: TemplateEntry, mode: SlotMode, settings: Pick<TemplateSlot, 'pinned' | 'terms'> = {}): TemplateEntry {
+  const slot = toSlot(entry);
+  return compactSlot({
+    ...slot,
+    mode: mode === 'all' ? undefined : mode,
+    pinned: mode === 'pinned' ? settings.pinned ?? slot.pinned : undefined,
+    terms: mode === 'subset' ? settings.terms ?? slot.terms ?? [] : undefined
+  });
+}
+
+// Drop a removed term from any slot that pins it or lists it in a subset.
+export function withoutSlotTerm(entry: TemplateEntry, element: string, term: string): TemplateEntry {
+  const slot = toSlot(entry);
+  if (slot.element !== element || (slot.pinned !== term && !slot.terms?.includes(term))) return entry;
+  return compactSlot({
+    ...slot,
+    pinned: slot.pinned === term ? undefined : slot.pinned,
+    terms: slot.terms?.filter(t => t !== term)
+  });
+}
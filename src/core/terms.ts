@@ -0,0 +1,43 @@
+import type { ElementDef, TermDef } from './types.ts';
+
+// --- Terms ---
+// Lookups over an element's term records.
+
+export function toTerms(tokens: string[]): TermDef[] {
+  return tokens.map(token => ({ token }));
+}
+
+export function termLabel(term: TermDef): string {
+  return term.label || term.token;
+}
+
+// Every token of the element, deprecated ones included.
+export function termTokens(def: ElementDef | undefined): string[] {
+  return (def?.terms || []).map(t => t.token);
+}
+
+// The tokens names are generated from: everything that isn't deprecated.
+export function activeTokens(def: ElementDef | undefined): string[] {
+  return (def?.terms || []).filter(t => !t.deprecated).map(t => t.token);
+}
+
+export function findTerm(def: ElementDef | undefined, token: string): TermDef | undefined {
+  return def?.terms.find(t => t.token === token);
+}
+
+// The term written as `text`, by its token or one of its aliases.
+export function resolveTerm(def: ElementDef | undefined, text: string): TermDef | undefined {
+  return findTerm(def, text) ?? def?.terms.find(t => t.aliases?.includes(text));
+}
+
+// A term record trimmed of empty optional fields, so files stay tidy.
+export function compactTerm(term: TermDef): TermDef {
+  const aliases = term.aliases?.map(a => a.trim()).filter(a => a && a !== term.token);
+  return {
+    token: term.token,
+    ...(term.label?.trim() && term.label.trim() !== term.token ? { label: term.label.trim() } : {}),
+    ...(term.description?.trim() ? { description: term.description.trim() } : {}),
+    ...(aliases && aliases.length > 0 ? { aliases } : {}),
+    ...(term.deprecated ? { deprecated: true } : {})
+  };
+}
@@ -0,0 +1,148 @@
+// --- Project Data Types ---
+
+// One value an element can take. Templates, rules and selections refer to terms by token.
+export type TermDef = {
+  // Text emitted into generated names
+  token: string;
+  // Friendlier name shown in the editor, e.g. "Rocket Launcher" for "RPG"
+  label?: string;
+  description?: string;
+  // Other spellings accepted when validating existing names
+  aliases?: string[];
+  // Still valid in existing names, but no longer generated
+  deprecated?: boolean;
+};
+
+export type ElementDef = {
+  terms: TermDef[];
+};
+
+export type CaseStyle = 'upper' | 'lower' | 'pascal' | 'camel';
+
+// Formatting applied to every term an element contributes at one position in a template.
+export type SlotFormat = {
+  case?: CaseStyle;
+  prefix?: string;
+  suffix?: string;
+  stripWhitespace?: boolean;
+  maxLength?: number;
+};
+
+// How a slot takes part in permutation generation:
+// 'all' uses every term, 'pinned' only the pinned (or currently selected) term,
+// 'optional' every term plus a variant without the slot, 'subset' only the listed terms.
+export type SlotMode = 'all' | 'pinned' | 'optional' | 'subset';
+
+export type TemplateSlot = {
+  element: string;
+  format?: SlotFormat;
+  mode?: SlotMode;
+  pinned?: string;
+  terms?: string[];
+};
+
+// A plain element name is shorthand for a slot with no extra settings.
+export type TemplateEntry = string | TemplateSlot;
+
+export type TermCondition = {
+  element: string;
+  terms: string[];
+};
+
+// Declarative constraint removing invalid combinations from generation (see rules.ts).
+export type CompatibilityRule = {
+  when: TermCondition;
+  effect: 'require' | 'exclude';
+  then: TermCondition;
+};
+
+// Numbered takes appended to every generated name, e.g. "_01" … "_08".
+export type VariationDef = {
+  start: number;
+  count: number;
+  padding: number;
+  separator: string;
+};
+
+// A slot a variant adds to its parent's template, placed after the parent slot with
+// the given slot key (see `slotKeys`), or at the start when there is none.
+export type SlotInsertion = {
+  after?: string;
+  slot: TemplateEntry;
+};
+
+// What a variant changes about its parent NameSet. Anything not overridden follows the parent.
+export type NameSetOverrides = {
+  delimiter?: string;
+  insert?: SlotInsertion[];
+  // Parent slot keys left out of the variant
+  remove?: string[];
+  // Parent slot key → the term the variant pins that slot to
+  pin?: Record<string, string>;
+  // Replaces the parent's tags
+  tags?: string[];
+};
+
+export type NameSetDef = {
+  // For a variant, template, delimiter and tags hold the resolved values (see
+  // inheritance.ts), so tools reading the file directly see the full template.
+  template: TemplateEntry[];
+  delimiter: string;
+  group?: string;
+  tags?: string[];
+  rules?: CompatibilityRule[];
+  variations?: VariationDef;
+  // The NameSet this one is a variant of
+  extends?: string;
+  overrides?: NameSetOverrides;
+  // Saved coverage reports, oldest first
+  coverage?: CoverageSnapshot[];
+};
+
+// How much of a NameSet had been delivered at one point in time (see coverage.ts).
+export type CoverageSnapshot = {
+  // ISO 8601 timestamp
+  date: string;
+  expected: number;
+  delivered: number;
+  // Files that matched none of the expected names
+  unexpected: number;
+  // The scanned folder, or a description of the list the names came from
+  source?: string;
+};
+
+export type LintRuleId = 'charset' | 'length' | 'reserved' | 'edges' | 'nonAscii' | 'duplicates';
+
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+// Filename safety checks run over every generated name (see lint.ts).
+export type LintSettings = {
+  // Characters names may use, written as the inside of a regex character class
+  allowedCharacters: string;
+  // Longest a name may be; 0 for no limit
+  maxLength: number;
+  // Names that can't be used as a file name, compared without case
+  reservedWords: string[];
+  severity: Record<LintRuleId, LintSeverity>;
+  // Refuse to export while any name has an error
+  blockExport: boolean;
+};
+
+export type ConfigObj = {
+  schema_version?: number;
+  project_name: string;
+  nameSets: Record<string, NameSetDef>;
+  // The project's own elements. With libraries, these add to and override library elements.
+  elements: Record<string, ElementDef>;
+  // Shared element library files, by path relative to the project file
+  libraries?: string[];
+  // Filename safety checks; the defaults apply when missing
+  lint?: LintSettings;
+};
+
+// A shared element library file that projects reference by path.
+export type ElementLibrary = {
+  schema_version?: number;
+  library_name?: string;
+  elements: Record<string, ElementDef>;
+};
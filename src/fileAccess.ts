@@ -0,0 +1,97 @@
+// --- Browser File Access ---
+// Uses the File System Access API where the webview supports it so Save can write
+// back to the same file, and falls back to a plain download everywhere else.
+
+type SaveFilePickerOptions = {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+};
+
+type OpenFilePickerOptions = {
+  multiple?: boolean;
+  types?: { description: string; accept: Record<string, string[]> }[];
+};
+
+type PickerWindow = Window & {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+  showOpenFilePicker?: (options?: OpenFilePickerOptions) => Promise<FileSystemFileHandle[]>;
+};
+
+export type SaveTarget = {
+  fileName: string;
+  handle?: FileSystemFileHandle;
+};
+
+// A file the user opened, with a handle to write back to where the API allows it.
+export type OpenedFile = {
+  file: File;
+  handle?: FileSystemFileHandle;
+};
+
+const JSON_TYPES = (description: string) => [{ description, accept: { 'application/json': ['.json'] } }];
+
+const isAbort = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+export function downloadFile(contents: string | BlobPart[], fileName: string, mimeType: string) {
+  const blob = new Blob(typeof contents === 'string' ? [contents] : contents, { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Ask the user where to save. Resolves to null if they cancel the picker.
+export async function pickSaveTarget(suggestedName: string, kind: 'Project' | 'Library' = 'Project'): Promise<SaveTarget | null> {
+  const picker = (window as PickerWindow).showSaveFilePicker;
+  if (!picker) {
+    const fileName = prompt(`Save ${kind.toLowerCase()} as:`, suggestedName);
+    if (!fileName) return null;
+    return { fileName: fileName.endsWith('.json') ? fileName : `${fileName}.json` };
+  }
+
+  try {
+    const handle = await picker({ suggestedName, types: JSON_TYPES(`Ludonomia ${kind}`) });
+    return { fileName: handle.name, handle };
+  } catch (err) {
+    if (isAbort(err)) return null;
+    throw err;
+  }
+}
+
+// Ask the user for one or more JSON files. Resolves to an empty list if they cancel.
+export async function pickJsonFiles(description: string): Promise<OpenedFile[]> {
+  const picker = (window as PickerWindow).showOpenFilePicker;
+  if (!picker) {
+    return new Promise(resolve => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.json';
+      input.multiple = true;
+      input.onchange = () => resolve(Array.from(input.files || []).map(file => ({ file })));
+      input.oncancel = () => resolve([]);
+      input.click();
+    });
+  }
+
+  try {
+    const handles = await picker({ multiple: true, types: JSON_TYPES(description) });
+    return Promise.all(handles.map(async handle => ({ file: await handle.getFile(), handle })));
+  } catch (err) {
+    if (isAbort(err)) return [];
+    throw err;
+  }
+}
+
+export async function writeSaveTarget(target: SaveTarget, contents: string) {
+  if (!target.handle) {
+    downloadFile(contents, target.fileName, 'application/json');
+    return;
+  }
+  const writable = await target.handle.createWritable();
+  await writable.write(contents);
+  await writable.close();
+}
@@ -0,0 +1,38 @@
+import type { ElementLibrary } from './core/types.ts';
+import { libraryFileName, parseLibrary, serializeLibrary } from './core/libraries.ts';
+import type { LoadedLibrary } from './core/libraries.ts';
+import { downloadFile, writeSaveTarget } from './fileAccess.ts';
+import type { OpenedFile } from './fileAccess.ts';
+
+// --- Library Files ---
+// A browser can't follow the relative paths in a project file, so library files are
+// picked by the user and matched to the project's references by file name.
+
+export type LibraryFile = LoadedLibrary & {
+  handle?: FileSystemFileHandle;
+};
+
+export async function readLibraryFile(path: string, opened: OpenedFile): Promise<LibraryFile> {
+  const result = parseLibrary(await opened.file.text());
+  return result.ok
+    ? { path, library: result.library, handle: opened.handle }
+    : { path, error: result.issues.map(issue => `${issue.path}: ${issue.message}`).join(' '), handle: opened.handle };
+}
+
+// Pair picked files with library paths by file name (ignoring case).
+export function matchLibraryFiles(paths: string[], opened: OpenedFile[]): { path: string; opened: OpenedFile }[] {
+  return paths.flatMap(path => {
+    const match = opened.find(o => o.file.name.toLowerCase() === libraryFileName(path).toLowerCase());
+    return match ? [{ path, opened: match }] : [];
+  });
+}
+
+// Write a changed library back to its file, or download it where that isn't possible.
+export async function writeLibraryFile(file: LibraryFile, library: ElementLibrary) {
+  const contents = serializeLibrary(library);
+  if (file.handle) {
+    await writeSaveTarget({ fileName: libraryFileName(file.path), handle: file.handle }, contents);
+  } else {
+    downloadFile(contents, libraryFileName(file.path), 'application/json');
+  }
+}
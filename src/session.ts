@@ -0,0 +1,140 @@
+import { invoke, isTauri } from '@tauri-apps/api/core';
+
+// --- Session Persistence ---
+// Autosaves the working session so a refresh or crash doesn't lose it, and keeps the
+// recent projects for the start screen. The desktop app stores them in its app data
+// folder; the browser uses localStorage.
+
+export type SessionUi = {
+  filterGroup: string;
+  filterTag: string;
+  isProjectBrowserOpen: boolean;
+  projectBrowserTab: 'namesets' | 'elements';
+};
+
+export type Session = {
+  // ISO 8601 timestamp of the autosave
+  savedAt: string;
+  projectName: string;
+  // The serialized project, including the active NameSet's template order
+  project: string;
+  // The project as last opened or saved, to tell whether the session has unsaved changes
+  savedProject: string;
+  // The file the project came from or was last saved to
+  fileName?: string;
+  activeNameSet: string;
+  selections: Record<string, string>;
+  ui: SessionUi;
+};
+
+export type RecentProject = {
+  fileName: string;
+  projectName: string;
+  // ISO 8601 timestamp of when it was last opened or saved
+  openedAt: string;
+  // A copy of the project as it was then. The browser can't reopen a file by path,
+  // so the start screen reopens this copy.
+  project: string;
+};
+
+export const AUTOSAVE_DELAY = 1000;
+
+const MAX_RECENT_PROJECTS = 10;
+
+const SESSION_DOCUMENT = 'session.json';
+const RECENT_DOCUMENT = 'recent-projects.json';
+const STORAGE_PREFIX = 'ludonomia:';
+
+type DocumentStore = {
+  read: (name: string) => Promise<string | null>;
+  write: (name: string, contents: string) => Promise<void>;
+};
+
+const browserStore: DocumentStore = {
+  read: async name => localStorage.getItem(STORAGE_PREFIX + name),
+  write: async (name, contents) => localStorage.setItem(STORAGE_PREFIX + name, contents)
+};
+
+const desktopStore: DocumentStore = {
+  read: name => invoke<string | null>('read_app_data', { name }),
+  write: (name, contents) => invoke<void>('write_app_data', { name, contents })
+};
+
+const store = () => isTauri() ? desktopStore : browserStore;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A document that is missing, unreadable or not JSON reads as null: losing an autosave
+// is better than failing to start.
+async function readDocument(name: string): Promise<unknown> {
+  try {
+    const contents = await store().read(name);
+    return contents === null ? null : JSON.parse(contents);
+  } catch (err) {
+    console.warn(`Could not read ${name}`, err);
+    return null;
+  }
+}
+
+async function writeDocument(name: string, value: unknown) {
+  try {
+    await store().write(name, JSON.stringify(value));
+  } catch (err) {
+    // Usually a full localStorage; the session carries on, just without the backup
+    console.warn(`Could not write ${name}`, err);
+  }
+}
+
+function isSession(value: unknown): value is Session {
+  return isRecord(value)
+    && typeof value.savedAt === 'string'
+    && typeof value.projectName === 'string'
+    && typeof value.project === 'string'
+    && typeof value.savedProject === 'string'
+    && typeof value.activeNameSet === 'string'
+    && isRecord(value.selections)
+    && isRecord(value.ui);
+}
+
+function isRecentProject(value: unknown): value is RecentProject {
+  return isRecord(value)
+    && typeof value.fileName === 'string'
+    && typeof value.projectName === 'string'
+    && typeof value.openedAt === 'string'
+    && typeof value.project === 'string';
+}
+
+export async function loadSession(): Promise<Session | null> {
+  const session = await readDocument(SESSION_DOCUMENT);
+  return isSession(session) ? session : null;
+}
+
+export function saveSession(session: Session): Promise<void> {
+  return writeDocument(SESSION_DOCUMENT, session);
+}
+
+export function hasUnsavedChanges(session: Session): boolean {
+  return session.project !== session.savedProject;
+}
+
+export async function loadRecentProjects(): Promise<RecentProject[]> {
+  const recent = await readDocument(RECENT_DOCUMENT);
+  return Array.isArray(recent) ? recent.filter(isRecentProject) : [];
+}
+
+// Move a project to the top of the recent list, replacing an older copy of the same file.
+export async function rememberProject(entry: Omit<RecentProject, 'openedAt'>): Promise<void> {
+  const recent = await loadRecentProjects();
+  const next = [
+    { ...entry, openedAt: new Date().toISOString() },
+    ...recent.filter(r => r.fileName !== entry.fileName)
+  ].slice(0, MAX_RECENT_PROJECTS);
+  await writeDocument(RECENT_DOCUMENT, next);
+}
+
+export async function forgetRecentProject(fileName: string): Promise<RecentProject[]> {
+  const next = (await loadRecentProjects()).filter(r => r.fileName !== fileName);
+  await writeDocument(RECENT_DOCUMENT, next);
+  return next;
+}